@@ -0,0 +1,235 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use-strict';
+
+import {
+  IKeyBinding, KeymapManager
+} from '../lib/index';
+
+
+/**
+ * The numbers of key bindings to benchmark.
+ *
+ * The bindings are indexed by keystroke, so the time of a lookup
+ * should stay roughly constant as the number of bindings grows.
+ * Each operation is timed with and without the cached selector
+ * matches of the keymap, to show the effect of the cache.
+ */
+var SIZES = [1000, 5000, 10000];
+
+
+/**
+ * The number of times each operation is timed.
+ */
+var ITERATIONS = 200;
+
+
+/**
+ * The number of untimed calls made before each operation is timed.
+ */
+var WARMUP = 100;
+
+
+/**
+ * The depth of the DOM tree above the event target.
+ */
+var DEPTH = 8;
+
+
+/**
+ * The number of distinct plugin selectors.
+ */
+var PLUGINS = 50;
+
+
+/**
+ * The modifiers for the first keystroke of the generated sequences.
+ */
+var MODIFIERS = ['ctrl+', 'alt+', 'ctrl+alt+', 'ctrl+shift+'];
+
+
+/**
+ * The keys for the generated sequences.
+ */
+var KEYS = 'abcdefghijklmnopqrstuvwxyz'.split('');
+
+
+/**
+ * Get the selector for the binding with the given index.
+ *
+ * Most bindings are spread over the plugin selectors, and the rest
+ * target the ancestors of the event target.
+ */
+function selectorFor(i: number): string {
+  if (i % 4 === 0) {
+    return `.pane-${i % DEPTH}`;
+  }
+  return `.plugin-${i % PLUGINS}`;
+}
+
+
+/**
+ * Get the normalized key sequence for the binding with the given index.
+ */
+function sequenceFor(i: number): string {
+  var first = MODIFIERS[i % MODIFIERS.length];
+  first += KEYS[Math.floor(i / MODIFIERS.length) % KEYS.length];
+  var second = KEYS[Math.floor(i / (MODIFIERS.length * KEYS.length)) % KEYS.length];
+  return `${first} ${second}`;
+}
+
+
+/**
+ * Create the nested elements for the benchmark.
+ *
+ * Returns the innermost element, which is the event target.
+ */
+function createTree(host: HTMLElement): HTMLElement {
+  var parent = host;
+  for (var i = 0; i < DEPTH; ++i) {
+    var node = document.createElement('div');
+    node.className = `pane-${i} plugin-${i}`;
+    parent.appendChild(node);
+    parent = node;
+  }
+  return parent;
+}
+
+
+/**
+ * Create a fake keydown event for the benchmark.
+ */
+function createKeyEvent(key: string, ctrlKey: boolean, target: HTMLElement): KeyboardEvent {
+  var event: any = {
+    type: 'keydown', key: key, code: '', keyCode: 0, location: 0,
+    ctrlKey: ctrlKey, altKey: false, shiftKey: false, metaKey: false,
+    repeat: false, target: target, currentTarget: document.documentElement,
+    preventDefault: () => { }, stopPropagation: () => { },
+  };
+  return event as KeyboardEvent;
+}
+
+
+/**
+ * Time a function and return the mean milliseconds per call.
+ *
+ * The function is called a few times before it is timed, so that
+ * the runtime has a chance to optimize it.
+ */
+function time(func: () => void): number {
+  for (var i = 0; i < WARMUP; ++i) {
+    func();
+  }
+  var start = performance.now();
+  for (var i = 0; i < ITERATIONS; ++i) {
+    func();
+  }
+  return (performance.now() - start) / ITERATIONS;
+}
+
+
+/**
+ * Time a function with the selector cache of a keymap invalidated.
+ *
+ * An attribute of the host element is changed before every call, so
+ * the selector matches of the elements under the host are computed
+ * again, as they were before the matches were cached.
+ */
+function timeUncached(host: HTMLElement, func: () => void): number {
+  var count = 0;
+  return time(() => {
+    host.setAttribute('data-count', `${count++}`);
+    func();
+  });
+}
+
+
+/**
+ * Format a benchmark result row.
+ */
+function formatRow(name: string, times: number[]): string {
+  var cells = SIZES.map((size, i) => `${size}: ${times[i].toFixed(4)} ms`);
+  return `${name}\n  ${cells.join('  ')}`;
+}
+
+
+/**
+ * Format a benchmark speedup row.
+ */
+function formatSpeedup(name: string, cached: number[], uncached: number[]): string {
+  var cells = SIZES.map((size, i) => `${size}: ${(uncached[i] / cached[i]).toFixed(1)}x`);
+  return `${name}\n  ${cells.join('  ')}`;
+}
+
+
+/**
+ * Create a key map with the given number of bindings.
+ */
+function createKeymap(size: number): KeymapManager {
+  var keymap = new KeymapManager();
+  var handler = () => true;
+  for (var i = 0; i < size; ++i) {
+    var binding: IKeyBinding = { sequence: sequenceFor(i), handler: handler };
+    keymap.add(selectorFor(i), [binding]);
+  }
+  return keymap;
+}
+
+
+/**
+ * Dispatch a complete two keystroke sequence to a key map.
+ */
+function runSequence(keymap: KeymapManager, target: HTMLElement): void {
+  keymap.processKeydownEvent(createKeyEvent('a', true, target));
+  keymap.processKeydownEvent(createKeyEvent('b', false, target));
+}
+
+
+/**
+ * Find the completions of a pending keystroke for a key map.
+ */
+function runCompletions(keymap: KeymapManager, target: HTMLElement): void {
+  keymap.findCompletions('ctrl+a', target);
+}
+
+
+/**
+ * Benchmark an operation for the key maps of every size.
+ *
+ * Returns the result rows for the operation.
+ */
+function benchmark(name: string, keymaps: KeymapManager[], host: HTMLElement, target: HTMLElement, run: (keymap: KeymapManager, target: HTMLElement) => void): string[] {
+  var cached: number[] = [];
+  var uncached: number[] = [];
+  keymaps.forEach(k => {
+    uncached.push(timeUncached(host, () => { run(k, target); }));
+    cached.push(time(() => { run(k, target); }));
+  });
+  return [
+    formatRow(`${name} (cached)`, cached),
+    formatRow(`${name} (uncached)`, uncached),
+    formatSpeedup(`${name} (speedup)`, cached, uncached),
+  ];
+}
+
+
+/**
+ * The main application entry point.
+ */
+function main(): void {
+  var host = document.getElementById('host');
+  var target = createTree(host);
+  var keymaps = SIZES.map(createKeymap);
+  var rows = benchmark('keydown sequence', keymaps, host, target, runSequence).concat(
+    benchmark('completions', keymaps, host, target, runCompletions)
+  );
+  document.getElementById('results').textContent = rows.join('\n\n');
+}
+
+
+window.onload = main;
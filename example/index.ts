@@ -8,7 +8,7 @@
 'use-strict';
 
 import {
-  IKeyBinding, KeymapManager
+  IKeyBinding, KeymapManager, formatSequence
 } from '../lib/index';
 
 
@@ -24,12 +24,15 @@ var SHORTCUTS = [
   'ctrl+=',
   'ctrl+-',
   'ctrl+a',
+  'accel+s',
   'shift+b',
   'ctrl+[',
   'ctrl+alt+0',
   'ctrl+k ctrl+;',
   'shift+F7 shift+F8',
   'alt+n alt+m shift+alt+o',
+  '[KeyW]',
+  'ctrl+k [Digit1]',
 ];
 
 
@@ -80,9 +83,18 @@ function main(): void {
     keymap.processKeydownEvent(event);
   });
 
+  // Setup the keyup listener for release bindings, and release the
+  // held keys when the window loses focus.
+  document.addEventListener('keyup', event => {
+    keymap.processKeyupEvent(event);
+  });
+  window.addEventListener('blur', () => {
+    keymap.releaseHeldKeys();
+  });
+
   // Create and add the list of shortcuts to the DOM.
   var host = document.getElementById('list-host');
-  host.appendChild(createList(SHORTCUTS));
+  host.appendChild(createList(SHORTCUTS.map(seq => formatSequence(seq))));
 }
 
 
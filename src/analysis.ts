@@ -0,0 +1,342 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import {
+  IBindingEntry, KeyTrigger, KeymapManager
+} from './manager';
+
+
+/**
+ * An enum of the kinds of issues found by a keymap analysis.
+ */
+export
+enum IssueKind {
+  /**
+   * Two bindings have the same sequence and overlapping selectors,
+   * so which binding fires depends on specificity and registration
+   * order.
+   */
+  Duplicate,
+
+  /**
+   * A binding can never fire, because a binding with the same
+   * sequence always takes precedence where its selector matches.
+   */
+  Unreachable,
+
+  /**
+   * The sequence of a binding is a prefix of another sequence, so
+   * the binding fires only after the partial match timeout.
+   */
+  PrefixConflict,
+}
+
+
+/**
+ * An object which describes an issue found by a keymap analysis.
+ */
+export
+interface IKeymapIssue {
+  /**
+   * The kind of the issue.
+   */
+  kind: IssueKind;
+
+  /**
+   * The key bindings involved in the issue.
+   *
+   * The first entry is the binding which the issue is about. For a
+   * duplicate or unreachable binding, the remaining entries are the
+   * bindings which take precedence. For a prefix conflict, they are
+   * the bindings whose sequences extend the first binding.
+   */
+  entries: IBindingEntry[];
+
+  /**
+   * A human-readable description of the issue.
+   */
+  message: string;
+}
+
+
+/**
+ * Analyze the key bindings of a keymap for conflicts.
+ *
+ * @param keymap - The keymap to analyze.
+ *
+ * @param root - An optional element which is used to determine if
+ *   selectors overlap. If this is provided, two selectors overlap if
+ *   they match a common element in the subtree of the root.
+ *
+ * @returns A new array of the issues found in the keymap.
+ *
+ * #### Notes
+ * Without a root element, the overlap of selectors is approximated
+ * by comparing the rightmost compound selector of each selector in
+ * their comma-separated lists, ignoring the ancestor parts. Two
+ * selectors overlap if the simple selectors of one compound are a
+ * subset of the other, so `.editor` overlaps `body .editor` and
+ * `.editor.focused`. A binding is reported as unreachable only if
+ * every selector in its list is covered by a selector of a binding
+ * with the same sequence which takes precedence. A selector covers
+ * another if its compound is a subset, and it has no ancestor parts
+ * or the same ancestor parts as the other. So `.editor` covers
+ * `.sidebar .editor`, but `.sidebar .editor` does not cover `.editor`,
+ * which still fires outside of `.sidebar`, and is only reported as a
+ * duplicate.
+ *
+ * Partial matches do not depend on selectors, so prefix conflicts
+ * are reported regardless of the selectors of the bindings.
+ *
+ * Logical and physical keystrokes are not considered equal, since
+ * their equivalence depends on the keyboard layout.
+ *
+ * Unbindings are deliberate, so they are not analyzed. Bindings
+ * scoped to different modes are never active together, and bindings
+ * with different triggers respond to different key events, so they
+ * do not conflict. A binding is only reported as unreachable by a binding
+ * with a `when` clause if the clauses are identical.
+ */
+export
+function analyzeKeymap(keymap: KeymapManager, root?: Element): IKeymapIssue[] {
+  var issues: IKeymapIssue[] = [];
+  var entries = keymap.bindings.filter(entry => !entry.binding.unbind);
+  var cache: { [selector: string]: Element[] } = Object.create(null);
+
+  // Find the duplicate and unreachable bindings. The entries are in
+  // priority order, so only earlier entries can take precedence.
+  for (var i = 0, n = entries.length; i < n; ++i) {
+    var entry = entries[i];
+    var winners: IBindingEntry[] = [];
+    for (var j = 0; j < i; ++j) {
+      var other = entries[j];
+      if (other.binding.sequence !== entry.binding.sequence) {
+        continue;
+      }
+      if (!modesOverlap(entry, other) || !triggersEqual(entry, other)) {
+        continue;
+      }
+      if (root) {
+        var overlap = elementsOverlap(
+          matchedElements(root, entry.selector, cache),
+          matchedElements(root, other.selector, cache)
+        );
+      } else {
+        overlap = selectorsOverlap(entry.selector, other.selector);
+      }
+      if (overlap) winners.push(other);
+    }
+    if (winners.length === 0) {
+      continue;
+    }
+    if (isUnreachable(entry, winners, root, cache)) {
+      issues.push({
+        kind: IssueKind.Unreachable,
+        entries: [entry].concat(winners),
+        message: `'${entry.binding.sequence}' for '${entry.selector}' can never ` +
+                 `fire, because '${winners[0].selector}' takes precedence`,
+      });
+    } else {
+      issues.push({
+        kind: IssueKind.Duplicate,
+        entries: [entry].concat(winners),
+        message: `'${entry.binding.sequence}' for '${entry.selector}' is ` +
+                 `also bound for '${winners[0].selector}', which takes ` +
+                 `precedence where both selectors match`,
+      });
+    }
+  }
+
+  // Find the prefix conflicts.
+  for (var i = 0, n = entries.length; i < n; ++i) {
+    var entry = entries[i];
+    var prefix = entry.binding.sequence + ' ';
+    var longer = entries.filter(e => {
+      return (
+        e.binding.sequence.indexOf(prefix) === 0 &&
+        modesOverlap(entry, e) &&
+        triggersEqual(entry, e)
+      );
+    });
+    if (longer.length === 0) {
+      continue;
+    }
+    var timeout = 0;
+    for (var k = 0; k < longer.length; ++k) {
+      var t = longer[k].binding.timeout;
+      timeout = Math.max(timeout, t !== void 0 ? t : keymap.timeout);
+    }
+    var delay = isFinite(timeout) ?
+      `fires after a delay of ${timeout} ms` :
+      `waits indefinitely for the next keystroke`;
+    issues.push({
+      kind: IssueKind.PrefixConflict,
+      entries: [entry].concat(longer),
+      message: `'${entry.binding.sequence}' is a prefix of ` +
+               `'${longer[0].binding.sequence}' and ${delay}`,
+    });
+  }
+
+  return issues;
+}
+
+
+/**
+ * Test whether two bindings can be active in the same mode.
+ */
+function modesOverlap(a: IBindingEntry, b: IBindingEntry): boolean {
+  var modeA = a.binding.mode;
+  var modeB = b.binding.mode;
+  return !modeA || !modeB || modeA === modeB;
+}
+
+
+/**
+ * Test whether two bindings are triggered by the same key event.
+ */
+function triggersEqual(a: IBindingEntry, b: IBindingEntry): boolean {
+  return (a.binding.trigger || KeyTrigger.Press) === (b.binding.trigger || KeyTrigger.Press);
+}
+
+
+/**
+ * Split a selector into its trimmed comma-separated selectors.
+ */
+function splitSelector(selector: string): string[] {
+  return selector.split(',').map(part => part.trim().replace(/\s+/g, ' '));
+}
+
+
+/**
+ * Split a selector into its ancestor parts and rightmost compound.
+ *
+ * The combinators of the ancestor parts are normalized, so that equal
+ * ancestor parts compare equal as strings.
+ */
+function splitSubject(selector: string): { context: string, subject: string } {
+  var normal = selector.replace(/\s*([>+~])\s*/g, ' $1 ').trim();
+  var match = /^(.*?)\s*([^\s>+~]*)$/.exec(normal);
+  return { context: match[1], subject: match[2] };
+}
+
+
+/**
+ * Get the simple selectors of the rightmost compound of a selector.
+ *
+ * The universal selector is omitted, since it matches any element.
+ */
+function subjectSelectors(selector: string): string[] {
+  var subject = splitSubject(selector).subject;
+  var simple = /[.#]?-?[_a-zA-Z][-\w]*|\[[^\]]*\]|::?[-\w]+(?:\([^)]*\))?/g;
+  return subject.match(simple) || [];
+}
+
+
+/**
+ * Test whether the subject of one selector covers that of another.
+ *
+ * This is `true` if every simple selector of the covering subject is
+ * also a simple selector of the covered subject, so the covering
+ * selector matches every element the covered selector matches, when
+ * the ancestor parts of the selectors are ignored.
+ */
+function subjectCovers(covering: string, covered: string): boolean {
+  var simple = subjectSelectors(covered);
+  return subjectSelectors(covering).every(part => simple.indexOf(part) !== -1);
+}
+
+
+/**
+ * Test whether one selector covers another, ancestors included.
+ *
+ * This is `true` if the subject of the covering selector covers that
+ * of the other, and the covering selector has no ancestor parts or
+ * the same ancestor parts as the other.
+ */
+function selectorCovers(covering: string, covered: string): boolean {
+  var context = splitSubject(covering).context;
+  if (context && context !== splitSubject(covered).context) {
+    return false;
+  }
+  return subjectCovers(covering, covered);
+}
+
+
+/**
+ * Test whether two selectors overlap, without a root element.
+ */
+function selectorsOverlap(a: string, b: string): boolean {
+  var partsB = splitSelector(b);
+  return splitSelector(a).some(partA => partsB.some(partB => {
+    return subjectCovers(partA, partB) || subjectCovers(partB, partA);
+  }));
+}
+
+
+/**
+ * Test whether a selector is shadowed by other selectors.
+ *
+ * This is `true` if each selector in the comma-separated list of the
+ * selector is covered by a selector of one of the others.
+ */
+function selectorsCover(selector: string, others: string[]): boolean {
+  return splitSelector(selector).every(part => others.some(other => {
+    return splitSelector(other).some(covering => selectorCovers(covering, part));
+  }));
+}
+
+
+/**
+ * Get the elements in the subtree of a root which match a selector.
+ *
+ * The results are cached by selector for the analysis.
+ */
+function matchedElements(root: Element, selector: string, cache: { [selector: string]: Element[] }): Element[] {
+  if (selector in cache) {
+    return cache[selector];
+  }
+  var all = root.ownerDocument.querySelectorAll(selector);
+  var result: Element[] = [];
+  for (var i = 0, n = all.length; i < n; ++i) {
+    var elem = all[i] as Element;
+    if (elem === root || root.contains(elem)) result.push(elem);
+  }
+  cache[selector] = result;
+  return result;
+}
+
+
+/**
+ * Test whether two arrays of elements have an element in common.
+ */
+function elementsOverlap(a: Element[], b: Element[]): boolean {
+  return a.some(elem => b.indexOf(elem) !== -1);
+}
+
+
+/**
+ * Test whether a binding is always shadowed by higher priority ones.
+ */
+function isUnreachable(entry: IBindingEntry, winners: IBindingEntry[], root: Element, cache: { [selector: string]: Element[] }): boolean {
+  // Only a binding which is active whenever the entry is can shadow it.
+  winners = winners.filter(w => {
+    var binding = w.binding;
+    return (
+      (!binding.mode || binding.mode === entry.binding.mode) &&
+      (binding.when === void 0 || binding.when === entry.binding.when)
+    );
+  });
+  if (!root) {
+    return selectorsCover(entry.selector, winners.map(w => w.selector));
+  }
+  var elems = matchedElements(root, entry.selector, cache);
+  return elems.every(elem => winners.some(w => {
+    return matchedElements(root, w.selector, cache).indexOf(elem) !== -1;
+  }));
+}
@@ -0,0 +1,272 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import {
+  DisposableDelegate, IDisposable
+} from 'phosphor-disposable';
+
+import {
+  ISignal, Signal
+} from 'phosphor-signaling';
+
+import {
+  IKeymapLogger
+} from './manager';
+
+
+/**
+ * An object which represents an application command.
+ */
+export
+interface ICommand {
+  /**
+   * The unique id of the command, e.g. `'editor:save'`.
+   */
+  id: string;
+
+  /**
+   * The human readable label for the command.
+   *
+   * This is used by menus, toolbars, and shortcut listings.
+   */
+  label?: string;
+
+  /**
+   * Test whether the command is enabled for the given arguments.
+   *
+   * If this is not provided, the command is always enabled.
+   */
+  isEnabled?: (args: any) => boolean;
+
+  /**
+   * Test whether the command is checked for the given arguments.
+   *
+   * If this is not provided, the command is never checked.
+   */
+  isChecked?: (args: any) => boolean;
+
+  /**
+   * Execute the command with the given arguments.
+   */
+  execute: (args: any) => any;
+}
+
+
+/**
+ * The arguments object for the `commandChanged` signal.
+ */
+export
+interface ICommandChangedArgs {
+  /**
+   * The id of the command which changed.
+   *
+   * This is an empty string if the state of all commands may have
+   * changed.
+   */
+  id: string;
+}
+
+
+/**
+ * An options object for initializing a command registry.
+ */
+export
+interface ICommandRegistryOptions {
+  /**
+   * The logger for the warnings reported by the registry.
+   *
+   * The default is the browser console.
+   */
+  logger?: IKeymapLogger;
+}
+
+
+/**
+ * A class which manages a collection of commands.
+ *
+ * #### Notes
+ * A command registry may be shared by a keymap, menus, and toolbars,
+ * so the same action is defined once and invoked by id.
+ */
+export
+class CommandRegistry {
+  /**
+   * A signal emitted when a command is added, removed, or changed.
+   *
+   * **See also:** [[commandChanged]]
+   */
+  static commandChangedSignal = new Signal<CommandRegistry, ICommandChangedArgs>();
+
+  /**
+   * A signal emitted when a command is added, removed, or changed.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[commandChangedSignal]].
+   */
+  get commandChanged(): ISignal<CommandRegistry, ICommandChangedArgs> {
+    return CommandRegistry.commandChangedSignal.bind(this);
+  }
+
+  /**
+   * Construct a new command registry.
+   *
+   * @param options - The options for initializing the registry.
+   */
+  constructor(options: ICommandRegistryOptions = {}) {
+    this._logger = options.logger || console;
+  }
+
+  /**
+   * Add commands to the registry.
+   *
+   * @param commands - The commands to add to the registry.
+   *
+   * @returns A disposable which will remove the added commands.
+   *
+   * #### Notes
+   * If a command has an empty id, or if a command with the same id
+   * is already registered, a warning will be reported to the logger
+   * and that command will be ignored.
+   */
+  add(commands: ICommand[]): IDisposable {
+    var added: ICommand[] = [];
+    for (var i = 0, n = commands.length; i < n; ++i) {
+      var command = commands[i];
+      if (!command.id) {
+        this._logger.warn('command with an empty id');
+        continue;
+      }
+      if (command.id in this._commands) {
+        this._logger.warn(`command already registered: ${command.id}`);
+        continue;
+      }
+      this._commands[command.id] = command;
+      added.push(command);
+      this.commandChanged.emit({ id: command.id });
+    }
+    return new DisposableDelegate(() => {
+      for (var i = 0, n = added.length; i < n; ++i) {
+        var id = added[i].id;
+        if (this._commands[id] === added[i]) {
+          delete this._commands[id];
+          this.commandChanged.emit({ id: id });
+        }
+      }
+    });
+  }
+
+  /**
+   * Get the ids of the registered commands.
+   *
+   * @returns A new array of the registered command ids.
+   */
+  ids(): string[] {
+    return Object.keys(this._commands);
+  }
+
+  /**
+   * Test whether a command is registered.
+   *
+   * @param id - The id of the command of interest.
+   *
+   * @returns `true` if the command is registered, `false` otherwise.
+   */
+  has(id: string): boolean {
+    return id in this._commands;
+  }
+
+  /**
+   * Get the label for a command.
+   *
+   * @param id - The id of the command of interest.
+   *
+   * @returns The label of the command, or an empty string if the
+   *   command is not registered or does not have a label.
+   */
+  label(id: string): string {
+    var command = this._commands[id];
+    return (command && command.label) || '';
+  }
+
+  /**
+   * Test whether a command is enabled.
+   *
+   * @param id - The id of the command of interest.
+   *
+   * @param args - The arguments for the command.
+   *
+   * @returns `true` if the command is registered and enabled,
+   *   `false` otherwise.
+   */
+  isEnabled(id: string, args?: any): boolean {
+    var command = this._commands[id];
+    if (!command) {
+      return false;
+    }
+    return command.isEnabled ? command.isEnabled(args) : true;
+  }
+
+  /**
+   * Test whether a command is checked.
+   *
+   * @param id - The id of the command of interest.
+   *
+   * @param args - The arguments for the command.
+   *
+   * @returns `true` if the command is registered and checked,
+   *   `false` otherwise.
+   */
+  isChecked(id: string, args?: any): boolean {
+    var command = this._commands[id];
+    if (!command) {
+      return false;
+    }
+    return command.isChecked ? command.isChecked(args) : false;
+  }
+
+  /**
+   * Execute a command.
+   *
+   * @param id - The id of the command to execute.
+   *
+   * @param args - The arguments for the command.
+   *
+   * @returns The value returned by the command.
+   *
+   * @throws An error if the command is not registered.
+   *
+   * #### Notes
+   * This does not check whether the command is enabled. Callers
+   * should use [[isEnabled]] to determine if the command applies.
+   */
+  execute(id: string, args?: any): any {
+    var command = this._commands[id];
+    if (!command) {
+      throw new Error(`Unknown command: ${id}`);
+    }
+    return command.execute(args);
+  }
+
+  /**
+   * Notify the registry that the state of a command has changed.
+   *
+   * @param id - The id of the command which changed. If this is not
+   *   provided, the state of all commands may have changed.
+   *
+   * #### Notes
+   * This should be called when the enabled or checked state of a
+   * command changes, so that views of the command can be updated.
+   */
+  notifyCommandChanged(id = ''): void {
+    this.commandChanged.emit({ id: id });
+  }
+
+  private _logger: IKeymapLogger;
+  private _commands: { [id: string]: ICommand } = Object.create(null);
+}
@@ -0,0 +1,448 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import {
+  ISignal, Signal
+} from 'phosphor-signaling';
+
+
+/**
+ * The arguments object for the `contextChanged` signal.
+ */
+export
+interface IContextChangedArgs {
+  /**
+   * The context key which changed.
+   */
+  key: string;
+}
+
+
+/**
+ * A class which holds the application state used by `when` clauses.
+ *
+ * #### Notes
+ * A context key is a name, such as `'editorHasSelection'`, which maps
+ * to a boolean, number, or string value. Keys which are not set have
+ * the value `undefined`.
+ */
+export
+class ContextKeyService {
+  /**
+   * A signal emitted when the value of a context key changes.
+   *
+   * **See also:** [[contextChanged]]
+   */
+  static contextChangedSignal = new Signal<ContextKeyService, IContextChangedArgs>();
+
+  /**
+   * A signal emitted when the value of a context key changes.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[contextChangedSignal]].
+   */
+  get contextChanged(): ISignal<ContextKeyService, IContextChangedArgs> {
+    return ContextKeyService.contextChangedSignal.bind(this);
+  }
+
+  /**
+   * Get the context keys which are set.
+   *
+   * @returns A new array of the context keys.
+   */
+  keys(): string[] {
+    return Object.keys(this._values);
+  }
+
+  /**
+   * Test whether a context key is set.
+   *
+   * @param key - The context key of interest.
+   *
+   * @returns `true` if the key is set, `false` otherwise.
+   */
+  has(key: string): boolean {
+    return key in this._values;
+  }
+
+  /**
+   * Get the value of a context key.
+   *
+   * @param key - The context key of interest.
+   *
+   * @returns The value of the key, or `undefined` if it is not set.
+   */
+  get(key: string): boolean | number | string {
+    return this._values[key];
+  }
+
+  /**
+   * Set the value of a context key.
+   *
+   * @param key - The context key to set.
+   *
+   * @param value - The new value for the key.
+   *
+   * #### Notes
+   * The [[contextChanged]] signal is only emitted if the value of
+   * the key changes.
+   */
+  set(key: string, value: boolean | number | string): void {
+    if (key in this._values && this._values[key] === value) {
+      return;
+    }
+    this._values[key] = value;
+    this.contextChanged.emit({ key: key });
+  }
+
+  /**
+   * Delete a context key.
+   *
+   * @param key - The context key to delete.
+   *
+   * #### Notes
+   * This is a no-op if the key is not set.
+   */
+  delete(key: string): void {
+    if (!(key in this._values)) {
+      return;
+    }
+    delete this._values[key];
+    this.contextChanged.emit({ key: key });
+  }
+
+  private _values: { [key: string]: boolean | number | string } = Object.create(null);
+}
+
+
+/**
+ * An object which represents a parsed `when` clause.
+ */
+export
+interface IWhenClause {
+  /**
+   * The source text of the clause.
+   */
+  source: string;
+
+  /**
+   * The context keys referenced by the clause.
+   */
+  keys: string[];
+
+  /**
+   * Evaluate the clause against a context.
+   *
+   * @param context - The context which provides the key values.
+   *
+   * @returns `true` if the clause is satisfied, `false` otherwise.
+   */
+  evaluate(context: ContextKeyService): boolean;
+}
+
+
+/**
+ * Parse the source text of a `when` clause.
+ *
+ * @param source - The source text of the clause.
+ *
+ * @returns The parsed clause.
+ *
+ * @throws An error if the clause has invalid syntax.
+ *
+ * #### Notes
+ * The clause is an expression built from the following:
+ *
+ *   - Context keys, such as `editorFocus` or `editor.readOnly`, whose
+ *     value is looked up in the context.
+ *   - Literals: `true`, `false`, numbers, and single or double quoted
+ *     strings.
+ *   - The logical operators `!`, `&&`, and `||`.
+ *   - The comparison operators `==`, `!=`, `<`, `<=`, `>`, and `>=`.
+ *   - Parentheses for grouping.
+ *
+ * The operators have the usual precedence: `!` binds most tightly,
+ * then the comparisons, then `&&`, then `||`. So `!a == b` is
+ * `(!a) == b`. Equality is strict, and a bare context key is
+ * satisfied if its value is truthy.
+ *
+ * #### Example
+ * ```typescript
+ * 'editorHasSelection && !readOnly'
+ * 'editorLangId == "python" || (tabCount > 1 && !inputFocus)'
+ * ```
+ */
+export
+function parseWhenClause(source: string): IWhenClause {
+  var parser = new Parser(source);
+  var evaluate = parser.parse();
+  return {
+    source: source,
+    keys: parser.keys,
+    evaluate: (context: ContextKeyService) => !!evaluate(context),
+  };
+}
+
+
+/**
+ * A type alias for a compiled expression of a `when` clause.
+ */
+type Evaluator = (context: ContextKeyService) => any;
+
+
+/**
+ * The regular expression which matches the next token of a clause.
+ *
+ * The groups are: operator, string, number, and identifier.
+ */
+var TOKEN_RX = /^\s*(?:(\|\||&&|==|!=|<=|>=|[!<>()])|('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")|(\d+(?:\.\d+)?)|([A-Za-z_][\w.:]*))/;
+
+
+/**
+ * An object which holds a token of a `when` clause.
+ */
+interface IToken {
+  /**
+   * The kind of the token.
+   */
+  kind: string;
+
+  /**
+   * The source text of the token.
+   */
+  text: string;
+
+  /**
+   * The offset of the token in the source text.
+   */
+  offset: number;
+}
+
+
+/**
+ * Split the source text of a clause into tokens.
+ *
+ * Throws an error if the source contains an invalid character.
+ */
+function tokenize(source: string): IToken[] {
+  var tokens: IToken[] = [];
+  var offset = 0;
+  while (source.slice(offset).trim()) {
+    var rest = source.slice(offset);
+    var match = rest.match(TOKEN_RX);
+    if (!match) {
+      var position = offset + (rest.length - rest.replace(/^\s+/, '').length);
+      throwSyntaxError(source, `unexpected character at ${position}`);
+    }
+    var start = offset + match[0].length - match[0].replace(/^\s+/, '').length;
+    var kind = match[1] ? 'op' : match[2] ? 'string' : match[3] ? 'number' : 'ident';
+    tokens.push({ kind: kind, text: match[0].trim(), offset: start });
+    offset += match[0].length;
+  }
+  return tokens;
+}
+
+
+/**
+ * A recursive descent parser for `when` clauses.
+ */
+class Parser {
+  /**
+   * Construct a new parser.
+   *
+   * @param source - The source text of the clause.
+   */
+  constructor(source: string) {
+    this._source = source;
+    this._tokens = tokenize(source);
+  }
+
+  /**
+   * The context keys referenced by the parsed clause.
+   */
+  keys: string[] = [];
+
+  /**
+   * Parse the clause into an evaluator.
+   */
+  parse(): Evaluator {
+    if (this._tokens.length === 0) {
+      throwSyntaxError(this._source, 'empty expression');
+    }
+    var result = this._parseOr();
+    if (this._index < this._tokens.length) {
+      this._unexpected();
+    }
+    return result;
+  }
+
+  /**
+   * Parse a disjunction of conjunctions.
+   */
+  private _parseOr(): Evaluator {
+    var left = this._parseAnd();
+    while (this._accept('||')) {
+      left = makeOr(left, this._parseAnd());
+    }
+    return left;
+  }
+
+  /**
+   * Parse a conjunction of comparisons.
+   */
+  private _parseAnd(): Evaluator {
+    var left = this._parseComparison();
+    while (this._accept('&&')) {
+      left = makeAnd(left, this._parseComparison());
+    }
+    return left;
+  }
+
+  /**
+   * Parse an optional comparison of two unary expressions.
+   */
+  private _parseComparison(): Evaluator {
+    var left = this._parseUnary();
+    var ops = ['==', '!=', '<=', '>=', '<', '>'];
+    for (var i = 0, n = ops.length; i < n; ++i) {
+      if (this._accept(ops[i])) {
+        return makeComparison(ops[i], left, this._parseUnary());
+      }
+    }
+    return left;
+  }
+
+  /**
+   * Parse a negation or a primary expression.
+   */
+  private _parseUnary(): Evaluator {
+    if (this._accept('!')) {
+      var operand = this._parseUnary();
+      return (context: ContextKeyService) => !operand(context);
+    }
+    return this._parsePrimary();
+  }
+
+  /**
+   * Parse a literal, a context key, or a parenthesized expression.
+   */
+  private _parsePrimary(): Evaluator {
+    var token = this._tokens[this._index];
+    if (!token) {
+      throwSyntaxError(this._source, 'unexpected end of expression');
+    }
+    if (this._accept('(')) {
+      var inner = this._parseOr();
+      if (!this._accept(')')) {
+        this._unexpected();
+      }
+      return inner;
+    }
+    if (token.kind === 'op') {
+      this._unexpected();
+    }
+    this._index++;
+    if (token.kind === 'string') {
+      var text = token.text.slice(1, -1).replace(/\\(.)/g, '$1');
+      return () => text;
+    }
+    if (token.kind === 'number') {
+      var num = parseFloat(token.text);
+      return () => num;
+    }
+    if (token.text === 'true') {
+      return () => true;
+    }
+    if (token.text === 'false') {
+      return () => false;
+    }
+    var key = token.text;
+    if (this.keys.indexOf(key) === -1) {
+      this.keys.push(key);
+    }
+    return (context: ContextKeyService) => context.get(key);
+  }
+
+  /**
+   * Consume the next token if it is the given operator.
+   */
+  private _accept(op: string): boolean {
+    var token = this._tokens[this._index];
+    if (token && token.kind === 'op' && token.text === op) {
+      this._index++;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Throw an error for the next token.
+   */
+  private _unexpected(): void {
+    var token = this._tokens[this._index];
+    if (!token) {
+      throwSyntaxError(this._source, 'unexpected end of expression');
+    }
+    throwSyntaxError(this._source, `unexpected '${token.text}' at ${token.offset}`);
+  }
+
+  private _index = 0;
+  private _source: string;
+  private _tokens: IToken[];
+}
+
+
+/**
+ * Create an evaluator for the logical or of two evaluators.
+ */
+function makeOr(left: Evaluator, right: Evaluator): Evaluator {
+  return (context: ContextKeyService) => left(context) || right(context);
+}
+
+
+/**
+ * Create an evaluator for the logical and of two evaluators.
+ */
+function makeAnd(left: Evaluator, right: Evaluator): Evaluator {
+  return (context: ContextKeyService) => left(context) && right(context);
+}
+
+
+/**
+ * Create an evaluator for a comparison of two evaluators.
+ */
+function makeComparison(op: string, left: Evaluator, right: Evaluator): Evaluator {
+  return (context: ContextKeyService) => {
+    var a = left(context);
+    var b = right(context);
+    switch (op) {
+    case '==':
+      return a === b;
+    case '!=':
+      return a !== b;
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    }
+    return false;
+  };
+}
+
+
+/**
+ * Throw an error for a `when` clause with invalid syntax.
+ */
+function throwSyntaxError(source: string, reason: string): void {
+  throw new Error(`Invalid when clause '${source}': ${reason}`);
+}
@@ -0,0 +1,279 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import {
+  Platform, detectPlatform, normalizeKeystroke, usKeyForCode
+} from './keycodes';
+
+import {
+  activeKeyboardLayout
+} from './layouts';
+
+
+/**
+ * An options object for formatting keystrokes for display.
+ */
+export
+interface IFormatOptions {
+  /**
+   * The platform whose conventions are used for display.
+   *
+   * The default is the detected platform.
+   */
+  platform?: Platform;
+
+  /**
+   * The separator between the modifiers and the key of a keystroke.
+   *
+   * The default is `''` on OSX and `'+'` on all other platforms.
+   */
+  keySeparator?: string;
+
+  /**
+   * The separator between the keystrokes of a key sequence.
+   *
+   * The default is `' '`.
+   */
+  sequenceSeparator?: string;
+
+  /**
+   * A mapping of canonical key or modifier names to display names.
+   *
+   * This is used to localize the display names, e.g. a German
+   * application may map `'ctrl'` to `'Strg'`. The names take
+   * precedence over the platform display names.
+   */
+  keyNames?: { [key: string]: string };
+}
+
+
+/**
+ * Format a keystroke for display to the user.
+ *
+ * @param keystroke - The keystroke to format.
+ *
+ * @param options - The options for formatting the keystroke.
+ *
+ * @returns The human-readable keystroke, e.g. `'⌃⌥⇧⌘F11'` on OSX
+ *   and `'Ctrl+Alt+Shift+F11'` on other platforms.
+ *
+ * @throws An error if the keystroke has an invalid format.
+ *
+ * #### Notes
+ * The keystroke is normalized for the platform before formatting,
+ * so the `'accel'` modifier is displayed as the platform modifier.
+ *
+ * Letters are displayed in upper case. A physical key is displayed
+ * as the character it produces on the active keyboard layout, or as
+ * the key it produces on a US layout. A lone modifier keystroke is
+ * displayed as the modifier, and the keys of a chord are always
+ * separated by `'+'`.
+ */
+export
+function formatKeystroke(keystroke: string, options: IFormatOptions = {}): string {
+  var platform = options.platform !== void 0 ? options.platform : detectPlatform();
+  var names = options.keyNames || {};
+  var isMac = platform === Platform.Mac;
+  var sep = options.keySeparator !== void 0 ? options.keySeparator : (isMac ? '' : '+');
+  var parts = splitKeystroke(normalizeKeystroke(keystroke, platform));
+  var modifierNames = modifierNamesFor(platform);
+  var labels = parts.modifiers.map(mod => names[mod] || modifierNames[mod]);
+  var keys = parts.keys.map(key => names[key] || modifierNames[key] || keyName(key, isMac));
+  labels.push(keys.join('+'));
+  return labels.join(sep);
+}
+
+
+/**
+ * Format a key sequence for display to the user.
+ *
+ * @param sequence - The whitespace separated key sequence to format.
+ *
+ * @param options - The options for formatting the key sequence.
+ *
+ * @returns The human-readable key sequence, e.g. `'Ctrl+K Ctrl+T'`.
+ *
+ * @throws An error if any of the keystrokes has an invalid format.
+ */
+export
+function formatSequence(sequence: string, options: IFormatOptions = {}): string {
+  var sep = options.sequenceSeparator !== void 0 ? options.sequenceSeparator : ' ';
+  var keystrokes = sequence.trim().split(/\s+/).filter(ks => !!ks);
+  return keystrokes.map(ks => formatKeystroke(ks, options)).join(sep);
+}
+
+
+/**
+ * The modifier display names for OSX.
+ */
+var MAC_MODIFIER_NAMES: { [modifier: string]: string } = {
+  'ctrl': '⌃',
+  'alt': '⌥',
+  'shift': '⇧',
+  'cmd': '⌘',
+};
+
+
+/**
+ * The modifier display names for Windows.
+ */
+var WIN_MODIFIER_NAMES: { [modifier: string]: string } = {
+  'ctrl': 'Ctrl',
+  'alt': 'Alt',
+  'shift': 'Shift',
+  'cmd': 'Win',
+};
+
+
+/**
+ * The modifier display names for Linux and other platforms.
+ */
+var LINUX_MODIFIER_NAMES: { [modifier: string]: string } = {
+  'ctrl': 'Ctrl',
+  'alt': 'Alt',
+  'shift': 'Shift',
+  'cmd': 'Super',
+};
+
+
+/**
+ * The display names for named keys on all platforms.
+ */
+var KEY_NAMES: { [key: string]: string } = {
+  'backspace': 'Backspace',
+  'tab': 'Tab',
+  'enter': 'Enter',
+  'pause': 'Pause',
+  'capslock': 'CapsLock',
+  'esc': 'Esc',
+  'space': 'Space',
+  'pageup': 'PageUp',
+  'pagedown': 'PageDown',
+  'end': 'End',
+  'home': 'Home',
+  'left': 'Left',
+  'up': 'Up',
+  'right': 'Right',
+  'down': 'Down',
+  'insert': 'Insert',
+  'delete': 'Delete',
+  'contextmenu': 'Menu',
+  'multiply': 'Num *',
+  'add': 'Num +',
+  'subtract': 'Num -',
+  'decimal': 'Num .',
+  'divide': 'Num /',
+  'numlock': 'NumLock',
+  'scrolllock': 'ScrollLock',
+};
+
+
+/**
+ * The display names for named keys which differ on OSX.
+ */
+var MAC_KEY_NAMES: { [key: string]: string } = {
+  'backspace': '⌫',
+  'tab': '⇥',
+  'enter': '↩',
+  'capslock': '⇪',
+  'esc': '⎋',
+  'pageup': '⇞',
+  'pagedown': '⇟',
+  'end': '↘',
+  'home': '↖',
+  'left': '←',
+  'up': '↑',
+  'right': '→',
+  'down': '↓',
+  'delete': '⌦',
+};
+
+
+/**
+ * An object which holds the parts of a normalized keystroke.
+ */
+interface IKeystrokeParts {
+  /**
+   * The modifiers of the keystroke, in canonical order.
+   */
+  modifiers: string[];
+
+  /**
+   * The primary keys of the keystroke.
+   *
+   * A chord has two keys, any other keystroke has one.
+   */
+  keys: string[];
+}
+
+
+/**
+ * Split a normalized keystroke into its modifiers and primary keys.
+ */
+function splitKeystroke(keystroke: string): IKeystrokeParts {
+  var tokens = keystroke.split('+');
+  var index = 0;
+  while (index < tokens.length - 1 && tokens[index] in LINUX_MODIFIER_NAMES) {
+    index++;
+  }
+  return { modifiers: tokens.slice(0, index), keys: tokens.slice(index) };
+}
+
+
+/**
+ * Get the modifier display names for a platform.
+ */
+function modifierNamesFor(platform: Platform): { [modifier: string]: string } {
+  switch (platform) {
+  case Platform.Mac:
+    return MAC_MODIFIER_NAMES;
+  case Platform.Windows:
+    return WIN_MODIFIER_NAMES;
+  }
+  return LINUX_MODIFIER_NAMES;
+}
+
+
+/**
+ * Get the display name for the primary key of a keystroke.
+ */
+function keyName(key: string, isMac: boolean): string {
+  if (isMac && key in MAC_KEY_NAMES) {
+    return MAC_KEY_NAMES[key];
+  }
+  if (key in KEY_NAMES) {
+    return KEY_NAMES[key];
+  }
+  if (key.length > 1 && key[0] === '[') {
+    return physicalKeyName(key.slice(1, -1), isMac);
+  }
+  var match = key.match(/^numpad(\d)$/);
+  if (match) {
+    return 'Num ' + match[1];
+  }
+  return key.toUpperCase();
+}
+
+
+/**
+ * Get the display name for a physical key code.
+ *
+ * The key is displayed as the character it produces on the active
+ * layout. Otherwise, it is displayed as the key it produces on a US
+ * layout, so a named key such as `[ArrowLeft]` is displayed like its
+ * logical form. An unknown code is displayed as the code itself.
+ */
+function physicalKeyName(code: string, isMac: boolean): string {
+  var layout = activeKeyboardLayout();
+  if (code in layout.codes) {
+    return layout.codes[code].toUpperCase();
+  }
+  var key = usKeyForCode(code);
+  return key ? keyName(key, isMac) : code;
+}
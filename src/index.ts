@@ -7,5 +7,12 @@
 |----------------------------------------------------------------------------*/
 'use strict';
 
+export * from './analysis';
+export * from './commands';
+export * from './context';
+export * from './formatting';
 export * from './keycodes';
+export * from './layouts';
+export * from './loader';
 export * from './manager';
+export * from './recorder';
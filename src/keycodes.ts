@@ -7,6 +7,52 @@
 |----------------------------------------------------------------------------*/
 'use strict';
 
+import {
+  IKeyboardLayout, activeKeyboardLayout
+} from './layouts';
+
+
+/**
+ * An enum of the platforms which affect keystroke handling.
+ */
+export
+enum Platform {
+  /**
+   * Apple macOS, where the primary modifier is `cmd`.
+   */
+  Mac,
+
+  /**
+   * Microsoft Windows, where the primary modifier is `ctrl`.
+   */
+  Windows,
+
+  /**
+   * Linux and other platforms, where the primary modifier is `ctrl`.
+   */
+  Linux,
+}
+
+
+/**
+ * Detect the platform of the current browser.
+ *
+ * @returns The detected platform. If the platform cannot be
+ *   determined, `Platform.Linux` is returned.
+ */
+export
+function detectPlatform(): Platform {
+  var nav = typeof navigator !== 'undefined' ? navigator : null;
+  var platform = (nav && nav.platform) || '';
+  if (/Mac|iPhone|iPad|iPod/.test(platform)) {
+    return Platform.Mac;
+  }
+  if (/Win/.test(platform)) {
+    return Platform.Windows;
+  }
+  return Platform.Linux;
+}
+
 
 /**
  * Test whether a key code represents a modifier key.
@@ -29,25 +75,172 @@ function isModifierKeyCode(code: number): boolean {
 
 
 /**
- * Create a normalize keystroke for a `'keydown'` event.
+ * An enum of the strategies used to resolve the key for an event.
+ */
+export
+enum KeyResolution {
+  /**
+   * The key was resolved from the `key` property of the event.
+   */
+  Key,
+
+  /**
+   * The key was resolved from the `code` property of the event.
+   */
+  Code,
+
+  /**
+   * The key was resolved from the legacy `keyCode` property.
+   */
+  KeyCode,
+
+  /**
+   * The key could not be resolved.
+   */
+  None,
+}
+
+
+/**
+ * An object which holds the result of resolving a `'keydown'` event.
+ */
+export
+interface IKeystrokeResult {
+  /**
+   * The normalized keystroke for the event.
+   *
+   * This will be an empty string if the key could not be resolved.
+   */
+  keystroke: string;
+
+  /**
+   * The normalized physical keystroke for the event.
+   *
+   * The primary key of a physical keystroke is the bracketed `code`
+   * of the event, e.g. `'ctrl+[KeyA]'`. This will be an empty string
+   * if the physical key could not be resolved.
+   */
+  physical: string;
+
+  /**
+   * The normalized primary key for the event, without modifiers.
+   *
+   * This will be an empty string if the key could not be resolved.
+   */
+  key: string;
+
+  /**
+   * The strategy which was used to resolve the key.
+   */
+  resolution: KeyResolution;
+}
+
+
+/**
+ * Test whether a normalized key represents a modifier key.
+ *
+ * @param key - The normalized key of interest.
+ *
+ * @returns `true` if the key is a modifier key, `false` otherwise.
+ */
+export
+function isModifierKey(key: string): boolean {
+  switch (key) {
+  case 'alt':
+  case 'ctrl':
+  case 'meta':
+  case 'shift':
+    return true;
+  }
+  return false;
+}
+
+
+/**
+ * Get the key produced by a physical key on a US keyboard layout.
+ *
+ * @param code - The `code` value of the physical key, e.g. `'KeyA'`.
+ *
+ * @returns The normalized key for the code, e.g. `'a'` or `'left'`,
+ *   or an empty string if the code is not known.
+ */
+export
+function usKeyForCode(code: string): string {
+  return CODE_VALUE_MAP[code] || '';
+}
+
+
+/**
+ * Resolve the normalized keystroke for a `'keydown'` event.
  *
  * @param event - The event object for a `'keydown'` event.
  *
- * @returns The normalized keystroke string for the event.
+ * @returns The keystroke result for the event.
  *
  * #### Notes
- * This function uses the `keyCode` property of the event to determine
- * which key was pressed. The code will be incorrect for a `'keypress'`
- * event, so this function must only be used for a `'keydown'` event.
+ * The key is resolved using the first applicable strategy:
+ *
+ *   1. The `key` property, for named keys, numpad keys, and for
+ *      printable characters which are valid keys.
+ *   2. The `code` property, mapped through the active keyboard layout.
+ *   3. The legacy `keyCode` property, mapped through the active
+ *      keyboard layout, for older browsers.
+ *
+ * When a valid key character is produced by combining a non-letter
+ * key with `shift`, such as `'/'` on a German layout, the `shift`
+ * modifier is consumed by the character and is omitted from the
+ * keystroke. This allows a binding for `'ctrl+/'` to work on any
+ * layout which can produce the `'/'` character.
+ *
+ * The `keyCode` will be incorrect for a `'keypress'` event, so this
+ * function must only be used for a `'keydown'` event.
+ */
+export
+function resolveKeydownEvent(event: KeyboardEvent): IKeystrokeResult {
+  var resolution = KeyResolution.Key;
+  var key = keyForKeyValue(event);
+  if (!key) {
+    resolution = KeyResolution.Code;
+    key = keyForCodeValue((event as any).code);
+  }
+  if (!key) {
+    resolution = KeyResolution.KeyCode;
+    key = keyForKeyCode(event.keyCode);
+  }
+  var code = physicalKeyForCode((event as any).code);
+  var physical = code ? modifierPrefix(event, event.shiftKey) + code : '';
+  if (!key) {
+    return {
+      keystroke: '', physical: physical, key: '',
+      resolution: KeyResolution.None,
+    };
+  }
+  var shift = event.shiftKey;
+  if (resolution === KeyResolution.Key && isShiftedSymbol(event)) {
+    shift = false;
+  }
+  return {
+    keystroke: modifierPrefix(event, shift) + key, physical: physical,
+    key: key, resolution: resolution,
+  };
+}
+
+
+/**
+ * Create a normalized keystroke for a `'keydown'` event.
+ *
+ * @param event - The event object for a `'keydown'` event.
+ *
+ * @returns The normalized keystroke string for the event, or an
+ *   empty string if the key could not be resolved.
+ *
+ * #### Notes
+ * This is a convenience function which returns the `keystroke` of
+ * the result of [[resolveKeydownEvent]].
  */
 export
 function keystrokeForKeydownEvent(event: KeyboardEvent): string {
-  var prefix = '';
-  if (event.ctrlKey) prefix += 'ctrl+';
-  if (event.altKey) prefix += 'alt+';
-  if (event.shiftKey) prefix += 'shift+';
-  if (event.metaKey) prefix += 'cmd+';
-  return prefix + keyForKeyCode(event.keyCode);
+  return resolveKeydownEvent(event).keystroke;
 }
 
 
@@ -56,6 +249,9 @@ function keystrokeForKeydownEvent(event: KeyboardEvent): string {
  *
  * @param keystroke - The keystroke to normalize.
  *
+ * @param platform - The platform used to resolve the `'accel'`
+ *   modifier. The default is the detected platform.
+ *
  * @returns The lower cased and canonically ordered keystroke.
  *
  * @throws An error if the keystroke has an invalid format.
@@ -65,18 +261,37 @@ function keystrokeForKeydownEvent(event: KeyboardEvent): string {
  *
  *   `[<modifier-1>+[<modifier-2>+[<modifier-n>+]]]<key>`
  *
- *   - Supported modifiers are `'ctrl'`, `'alt'`, `'shift'`, `'cmd'`.
+ *   - Supported modifiers are `'ctrl'`, `'alt'`, `'shift'`, `'cmd'`,
+ *     and `'accel'`.
  *   - The `'cmd'` modifier only works on OSX (browser limitation).
+ *   - The `'accel'` modifier resolves to `'cmd'` on OSX and to
+ *     `'ctrl'` on all other platforms.
  *   - The modifiers may appear in any order.
- *   - The modifiers cannot appear in duplicate.
- *   - The primary key must be a valid key character.
+ *   - The modifiers cannot appear in duplicate, including after the
+ *     `'accel'` modifier is resolved.
+ *   - The primary key must be a valid key character or physical key.
+ *   - The valid key characters include the characters produced by
+ *     the active keyboard layout.
+ *   - A single modifier without a primary key is a lone modifier
+ *     keystroke, e.g. `'shift'` or `'accel'`.
+ *   - Two different primary keys form a chord, e.g. `'j+k'`. The
+ *     keys of a chord are sorted in the canonical form.
  *   - The keystroke is case insensitive.
  *
+ * The primary key may also be a physical key, which is written as the
+ * `KeyboardEvent.code` of the key enclosed in brackets, e.g. `[KeyW]`.
+ * A physical key matches the key at that position on the keyboard,
+ * regardless of the character produced by the active layout. The
+ * canonical form of a physical key preserves the casing of the code.
+ *
+ * The canonical form never contains the `'accel'` modifier, so the
+ * result is specific to the platform used for normalization.
+ *
  * If the key does not adhere to the format, an error will be thrown.
  */
 export
-function normalizeKeystroke(keystroke: string): string {
-  var key = '';
+function normalizeKeystroke(keystroke: string, platform = detectPlatform()): string {
+  var keys: string[] = [];
   var sep = false;
   var alt = false;
   var cmd = false;
@@ -86,43 +301,62 @@ function normalizeKeystroke(keystroke: string): string {
   for (var i = 0, n = tokens.length; i < n; ++i) {
     var token = tokens[i];
     if (token === '+') {
-      if (sep || key || !(alt || cmd || ctrl || shift)) {
+      if (sep || !(alt || cmd || ctrl || shift || keys.length > 0)) {
         throwKeystrokeError(keystroke);
       }
       sep = true;
+    } else if (token === 'accel') {
+      var isMac = platform === Platform.Mac;
+      if ((isMac ? cmd : ctrl) || keys.length > 0) {
+        throwKeystrokeError(keystroke);
+      }
+      if (isMac) {
+        cmd = true;
+      } else {
+        ctrl = true;
+      }
+      sep = false;
     } else if (token === 'alt') {
-      if (alt || key) {
+      if (alt || keys.length > 0) {
         throwKeystrokeError(keystroke);
       }
       alt = true;
       sep = false;
     } else if (token === 'cmd') {
-      if (cmd || key) {
+      if (cmd || keys.length > 0) {
         throwKeystrokeError(keystroke);
       }
       cmd = true;
       sep = false;
     } else if (token === 'ctrl') {
-      if (ctrl || key) {
+      if (ctrl || keys.length > 0) {
         throwKeystrokeError(keystroke);
       }
       ctrl = true;
       sep = false;
     } else if (token === 'shift') {
-      if (shift || key) {
+      if (shift || keys.length > 0) {
         throwKeystrokeError(keystroke);
       }
       shift = true;
       sep = false;
     } else {
-      if (key || token === 'meta' || !(token in KEY_CODE_MAP_INV)) {
+      var physical = physicalKeyForToken(token);
+      if (keys.length > 1 || !(physical || isValidKey(token))) {
+        throwKeystrokeError(keystroke);
+      }
+      var key = physical || token;
+      if (keys.indexOf(key) !== -1) {
         throwKeystrokeError(keystroke);
       }
-      key = token;
+      keys.push(key);
       sep = false;
     }
   }
-  if (!key) {
+  if (keys.length === 0 && !sep && [alt, cmd, ctrl, shift].filter(mod => mod).length === 1) {
+    return ctrl ? 'ctrl' : alt ? 'alt' : shift ? 'shift' : 'cmd';
+  }
+  if (keys.length === 0 || sep) {
     throwKeystrokeError(keystroke);
   }
   var prefix = '';
@@ -130,12 +364,15 @@ function normalizeKeystroke(keystroke: string): string {
   if (alt) prefix += 'alt+';
   if (shift) prefix += 'shift+';
   if (cmd) prefix += 'cmd+';
-  return prefix + key;
+  return prefix + keys.sort().join('+');
 }
 
 
 /**
  * A mapping of key code to key character.
+ *
+ * This is only used as a fallback for browsers which do not support
+ * the `key` and `code` properties of a keyboard event.
  */
 var KEY_CODE_MAP: { [key: number]: string } = {
   8: 'backspace',
@@ -263,6 +500,188 @@ var KEY_CODE_MAP_INV: { [key: string]: number } = {};
 })();
 
 
+/**
+ * A mapping of named `key` values to key character.
+ *
+ * This includes the non-standard values used by older browsers.
+ */
+var KEY_VALUE_MAP: { [key: string]: string } = {
+  'Backspace': 'backspace',
+  'Tab': 'tab',
+  'Enter': 'enter',
+  'Shift': 'shift',
+  'Control': 'ctrl',
+  'Alt': 'alt',
+  'Pause': 'pause',
+  'CapsLock': 'capslock',
+  'Escape': 'esc',
+  'Esc': 'esc',
+  ' ': 'space',
+  'Spacebar': 'space',
+  'PageUp': 'pageup',
+  'PageDown': 'pagedown',
+  'End': 'end',
+  'Home': 'home',
+  'ArrowLeft': 'left',
+  'Left': 'left',
+  'ArrowUp': 'up',
+  'Up': 'up',
+  'ArrowRight': 'right',
+  'Right': 'right',
+  'ArrowDown': 'down',
+  'Down': 'down',
+  'Insert': 'insert',
+  'Delete': 'delete',
+  'Del': 'delete',
+  'Meta': 'meta',
+  'OS': 'meta',
+  'ContextMenu': 'contextmenu',
+  'Apps': 'contextmenu',
+  'Multiply': 'multiply',
+  'Add': 'add',
+  'Subtract': 'subtract',
+  'Decimal': 'decimal',
+  'Divide': 'divide',
+  'NumLock': 'numlock',
+  'ScrollLock': 'scrolllock',
+  'Scroll': 'scrolllock',
+};
+
+
+/**
+ * A mapping of numpad `key` values to key character.
+ */
+var NUMPAD_KEY_MAP: { [key: string]: string } = {
+  '0': 'numpad0',
+  '1': 'numpad1',
+  '2': 'numpad2',
+  '3': 'numpad3',
+  '4': 'numpad4',
+  '5': 'numpad5',
+  '6': 'numpad6',
+  '7': 'numpad7',
+  '8': 'numpad8',
+  '9': 'numpad9',
+  '*': 'multiply',
+  '+': 'add',
+  '-': 'subtract',
+  '.': 'decimal',
+  '/': 'divide',
+};
+
+
+/**
+ * A mapping of physical `code` values to key character.
+ *
+ * The characters correspond to a US keyboard layout.
+ */
+var CODE_VALUE_MAP: { [code: string]: string } = {
+  'Backspace': 'backspace',
+  'Tab': 'tab',
+  'Enter': 'enter',
+  'NumpadEnter': 'enter',
+  'ShiftLeft': 'shift',
+  'ShiftRight': 'shift',
+  'ControlLeft': 'ctrl',
+  'ControlRight': 'ctrl',
+  'AltLeft': 'alt',
+  'AltRight': 'alt',
+  'Pause': 'pause',
+  'CapsLock': 'capslock',
+  'Escape': 'esc',
+  'Space': 'space',
+  'PageUp': 'pageup',
+  'PageDown': 'pagedown',
+  'End': 'end',
+  'Home': 'home',
+  'ArrowLeft': 'left',
+  'ArrowUp': 'up',
+  'ArrowRight': 'right',
+  'ArrowDown': 'down',
+  'Insert': 'insert',
+  'Delete': 'delete',
+  'MetaLeft': 'meta',
+  'MetaRight': 'meta',
+  'OSLeft': 'meta',
+  'OSRight': 'meta',
+  'ContextMenu': 'contextmenu',
+  'NumpadMultiply': 'multiply',
+  'NumpadAdd': 'add',
+  'NumpadSubtract': 'subtract',
+  'NumpadDecimal': 'decimal',
+  'NumpadDivide': 'divide',
+  'NumLock': 'numlock',
+  'ScrollLock': 'scrolllock',
+  'Semicolon': ';',
+  'Equal': '=',
+  'Comma': ',',
+  'Minus': '-',
+  'Period': '.',
+  'Slash': '/',
+  'Backquote': '`',
+  'BracketLeft': '[',
+  'Backslash': '\\',
+  'BracketRight': ']',
+  'Quote': '\'',
+};
+
+
+// Populate the generated entries of the code values map.
+(() => {
+  for (var i = 0; i < 10; ++i) {
+    CODE_VALUE_MAP['Digit' + i] = '' + i;
+    CODE_VALUE_MAP['Numpad' + i] = 'numpad' + i;
+  }
+  for (var j = 65; j <= 90; ++j) {
+    var c = String.fromCharCode(j);
+    CODE_VALUE_MAP['Key' + c] = c.toLowerCase();
+  }
+  for (var k = 1; k <= 15; ++k) {
+    CODE_VALUE_MAP['F' + k] = KEY_VALUE_MAP['F' + k] = 'f' + k;
+  }
+})();
+
+
+/**
+ * A mapping of lower cased `code` value to physical key.
+ *
+ * Codes for modifier keys are excluded. A lone modifier keystroke is
+ * written with the name of the modifier, such as `shift`, so the
+ * physical modifier keys cannot be used in a key binding.
+ */
+var PHYSICAL_KEY_MAP: { [token: string]: string } = {};
+
+
+/**
+ * The physical codes which do not exist on a US keyboard.
+ */
+var INTL_CODES = ['IntlBackslash', 'IntlRo', 'IntlYen'];
+
+
+// Populate the physical keys from the code values map.
+(() => {
+  var codes = Object.keys(CODE_VALUE_MAP).concat(INTL_CODES);
+  for (var i = 0, n = codes.length; i < n; ++i) {
+    var code = codes[i];
+    if (!isModifierKey(CODE_VALUE_MAP[code])) {
+      PHYSICAL_KEY_MAP['[' + code.toLowerCase() + ']'] = '[' + code + ']';
+    }
+  }
+})();
+
+
+/**
+ * The keyboard layout for the cached layout keys.
+ */
+var cachedLayout: IKeyboardLayout = null;
+
+
+/**
+ * The cached set of valid key characters for the cached layout.
+ */
+var cachedLayoutKeys: { [key: string]: boolean } = null;
+
+
 /**
  * Throw an error for an invalid keystroke.
  */
@@ -271,11 +690,164 @@ function throwKeystrokeError(keystroke: string): void {
 }
 
 
+/**
+ * Create the modifier prefix for a keyboard event.
+ */
+function modifierPrefix(event: KeyboardEvent, shift: boolean): string {
+  var prefix = '';
+  if (event.ctrlKey) prefix += 'ctrl+';
+  if (event.altKey) prefix += 'alt+';
+  if (shift) prefix += 'shift+';
+  if (event.metaKey) prefix += 'cmd+';
+  return prefix;
+}
+
+
 /**
  * Get the key character for a key code.
  *
+ * The active keyboard layout takes precedence over the US table.
+ *
  * If the code is not valid, an empty string is returned.
  */
 function keyForKeyCode(code: number): string {
+  var layout = activeKeyboardLayout();
+  if (code in layout.keyCodes) {
+    return layoutKey(layout.keyCodes[code]);
+  }
   return KEY_CODE_MAP[code] || '';
 }
+
+
+/**
+ * Get the key character for the `key` property of an event.
+ *
+ * If the value does not identify a known key, or if it identifies
+ * a printable character which is not a valid key, an empty string
+ * is returned.
+ */
+function keyForKeyValue(event: KeyboardEvent): string {
+  var value = event.key;
+  if (!value) {
+    return '';
+  }
+  if (value in KEY_VALUE_MAP) {
+    return KEY_VALUE_MAP[value];
+  }
+  if (event.location === 3 && value in NUMPAD_KEY_MAP) {
+    return NUMPAD_KEY_MAP[value];
+  }
+  if (value.length !== 1) {
+    return '';
+  }
+  var lower = value.toLowerCase();
+  return isValidKey(lower) ? lower : '';
+}
+
+
+/**
+ * Test whether the `key` of an event is a shifted non-letter symbol.
+ */
+function isShiftedSymbol(event: KeyboardEvent): boolean {
+  var value = event.key;
+  return (
+    event.shiftKey &&
+    value.length === 1 &&
+    event.location !== 3 &&
+    !(value in KEY_VALUE_MAP) &&
+    value.toLowerCase() === value.toUpperCase()
+  );
+}
+
+
+/**
+ * Get the key character for the `code` property of an event.
+ *
+ * The active keyboard layout takes precedence over the US table.
+ *
+ * If the code is not valid, an empty string is returned.
+ */
+function keyForCodeValue(code: string): string {
+  if (!code) {
+    return '';
+  }
+  var layout = activeKeyboardLayout();
+  if (code in layout.codes) {
+    return layoutKey(layout.codes[code]);
+  }
+  return usKeyForCode(code);
+}
+
+
+/**
+ * Normalize a key character produced by a keyboard layout.
+ *
+ * If the character is not a valid key, an empty string is returned.
+ */
+function layoutKey(value: string): string {
+  var key = (value || '').toLowerCase();
+  return isValidKey(key) ? key : '';
+}
+
+
+/**
+ * Test whether a key character is a valid primary key.
+ *
+ * The valid keys are the US keys and the characters produced by
+ * the active keyboard layout.
+ */
+function isValidKey(key: string): boolean {
+  if (key === 'meta') {
+    return false;
+  }
+  return key in KEY_CODE_MAP_INV || key in layoutKeys(activeKeyboardLayout());
+}
+
+
+/**
+ * Get the set of key characters produced by a keyboard layout.
+ *
+ * Characters which cannot be expressed in a keystroke are excluded.
+ */
+function layoutKeys(layout: IKeyboardLayout): { [key: string]: boolean } {
+  if (layout === cachedLayout) {
+    return cachedLayoutKeys;
+  }
+  var keys: { [key: string]: boolean } = {};
+  var add = (value: string) => {
+    var key = (value || '').toLowerCase();
+    if (key.length === 1 && key !== '+' && !/\s/.test(key)) {
+      keys[key] = true;
+    }
+  };
+  for (var code in layout.codes) {
+    add(layout.codes[code]);
+  }
+  for (var keyCode in layout.keyCodes) {
+    add(layout.keyCodes[keyCode]);
+  }
+  cachedLayout = layout;
+  cachedLayoutKeys = keys;
+  return keys;
+}
+
+
+/**
+ * Get the physical key for the `code` property of an event.
+ *
+ * If the code is not valid, an empty string is returned.
+ */
+function physicalKeyForCode(code: string): string {
+  return (code && PHYSICAL_KEY_MAP['[' + code.toLowerCase() + ']']) || '';
+}
+
+
+/**
+ * Get the canonical physical key for a lower cased keystroke token.
+ *
+ * If the token is not a valid physical key, an empty string is returned.
+ */
+function physicalKeyForToken(token: string): string {
+  return PHYSICAL_KEY_MAP[token] || '';
+}
+
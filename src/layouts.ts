@@ -0,0 +1,514 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import {
+  DisposableDelegate, IDisposable
+} from 'phosphor-disposable';
+
+
+/**
+ * An object which describes a keyboard layout.
+ *
+ * #### Notes
+ * A layout only needs to describe the keys which differ from a US
+ * keyboard layout. Keys which are not described by the layout are
+ * resolved using the US layout.
+ */
+export
+interface IKeyboardLayout {
+  /**
+   * The unique name of the layout, e.g. `'de-DE'`.
+   */
+  name: string;
+
+  /**
+   * The languages which conventionally use the layout.
+   *
+   * These are used to auto-detect the layout from the browser
+   * language, and may be full language tags (`'de-CH'`) or just
+   * the primary language subtag (`'de'`).
+   */
+  languages: string[];
+
+  /**
+   * A mapping of physical `KeyboardEvent.code` to the unshifted key
+   * character produced by the layout.
+   *
+   * A character which cannot be expressed in a keystroke, such as
+   * `'+'`, makes the key unbindable on the layout.
+   */
+  codes: { [code: string]: string };
+
+  /**
+   * A mapping of legacy `KeyboardEvent.keyCode` to the unshifted key
+   * character produced by the layout.
+   *
+   * This is only used for browsers which do not support the `key`
+   * and `code` properties of a keyboard event.
+   */
+  keyCodes: { [keyCode: number]: string };
+}
+
+
+/**
+ * Register a keyboard layout.
+ *
+ * @param layout - The keyboard layout to register.
+ *
+ * @returns A disposable which will unregister the layout.
+ *
+ * @throws An error if a layout with the same name is registered.
+ *
+ * #### Notes
+ * If the layout is active when it is unregistered, the US layout
+ * will be made the active layout.
+ */
+export
+function registerKeyboardLayout(layout: IKeyboardLayout): IDisposable {
+  if (layout.name in registry) {
+    throw new Error(`Keyboard layout already registered: ${layout.name}`);
+  }
+  registry[layout.name] = layout;
+  return new DisposableDelegate(() => {
+    if (registry[layout.name] !== layout) {
+      return;
+    }
+    delete registry[layout.name];
+    if (activeLayout === layout) {
+      activeLayout = US_LAYOUT;
+    }
+  });
+}
+
+
+/**
+ * Get the names of the registered keyboard layouts.
+ *
+ * @returns A new array of the registered layout names.
+ */
+export
+function keyboardLayoutNames(): string[] {
+  return Object.keys(registry);
+}
+
+
+/**
+ * Get the registered keyboard layout with the given name.
+ *
+ * @param name - The name of the layout of interest.
+ *
+ * @returns The layout with the given name, or `undefined`.
+ */
+export
+function getKeyboardLayout(name: string): IKeyboardLayout {
+  return registry[name];
+}
+
+
+/**
+ * Get the active keyboard layout.
+ *
+ * @returns The keyboard layout which is used to resolve and
+ *   validate keystrokes. The default is the US layout.
+ */
+export
+function activeKeyboardLayout(): IKeyboardLayout {
+  return activeLayout;
+}
+
+
+/**
+ * Set the active keyboard layout.
+ *
+ * @param name - The name of a registered keyboard layout.
+ *
+ * @throws An error if the layout is not registered.
+ *
+ * #### Notes
+ * Key bindings are validated against the layout which is active
+ * when they are added, so the layout should be set before adding
+ * bindings which use layout-specific characters.
+ */
+export
+function setKeyboardLayout(name: string): void {
+  if (!(name in registry)) {
+    throw new Error(`Unknown keyboard layout: ${name}`);
+  }
+  activeLayout = registry[name];
+}
+
+
+/**
+ * Detect the keyboard layout from the browser languages.
+ *
+ * @returns The name of the best matching registered layout, or the
+ *   name of the US layout if no registered layout matches.
+ *
+ * #### Notes
+ * The browser does not expose the keyboard layout, so this is only
+ * a heuristic based on `navigator.languages`. When the keys produced
+ * by the keyboard are known, [[matchKeyboardLayout]] is more accurate.
+ *
+ * This function does not change the active layout.
+ */
+export
+function detectKeyboardLayout(): string {
+  var nav = typeof navigator !== 'undefined' ? navigator as any : null;
+  var languages: string[] = (nav && (nav.languages || [nav.language])) || [];
+  for (var i = 0, n = languages.length; i < n; ++i) {
+    var name = layoutForLanguage(languages[i] || '');
+    if (name) return name;
+  }
+  return US_LAYOUT.name;
+}
+
+
+/**
+ * Find the keyboard layout which best matches a set of known keys.
+ *
+ * @param keys - A mapping of physical `KeyboardEvent.code` to the
+ *   key character produced by the keyboard, such as the result of
+ *   the `navigator.keyboard.getLayoutMap()` browser API.
+ *
+ * @returns The name of the registered layout which agrees with the
+ *   most keys, or the name of the US layout if no layout is better.
+ *
+ * #### Notes
+ * This function does not change the active layout.
+ */
+export
+function matchKeyboardLayout(keys: { [code: string]: string }): string {
+  var best = US_LAYOUT.name;
+  var bestScore = scoreLayout(US_LAYOUT, keys);
+  for (var name in registry) {
+    var score = scoreLayout(registry[name], keys);
+    if (score > bestScore) {
+      best = name;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+
+/**
+ * The default US keyboard layout.
+ */
+var US_LAYOUT: IKeyboardLayout = {
+  name: 'en-US',
+  languages: ['en'],
+  codes: {},
+  keyCodes: {},
+};
+
+
+/**
+ * The UK keyboard layout.
+ */
+var UK_LAYOUT: IKeyboardLayout = {
+  name: 'en-GB',
+  languages: ['en-GB', 'en-IE'],
+  codes: {
+    'Backslash': '#',
+    'IntlBackslash': '\\',
+  },
+  keyCodes: {
+    192: '\'',
+    220: '\\',
+    222: '#',
+    223: '`',
+  },
+};
+
+
+/**
+ * The German keyboard layout.
+ */
+var DE_LAYOUT: IKeyboardLayout = {
+  name: 'de-DE',
+  languages: ['de'],
+  codes: {
+    'Backquote': '^',
+    'Minus': 'ß',
+    'Equal': '´',
+    'KeyY': 'z',
+    'BracketLeft': 'ü',
+    'BracketRight': '+',
+    'Semicolon': 'ö',
+    'Quote': 'ä',
+    'Backslash': '#',
+    'IntlBackslash': '<',
+    'KeyZ': 'y',
+    'Slash': '-',
+  },
+  keyCodes: {
+    186: 'ü',
+    187: '+',
+    189: '-',
+    191: '#',
+    192: 'ö',
+    219: 'ß',
+    220: '^',
+    221: '´',
+    222: 'ä',
+    226: '<',
+  },
+};
+
+
+/**
+ * The French keyboard layout.
+ */
+var FR_LAYOUT: IKeyboardLayout = {
+  name: 'fr-FR',
+  languages: ['fr'],
+  codes: {
+    'Backquote': '²',
+    'Digit1': '&',
+    'Digit2': 'é',
+    'Digit3': '"',
+    'Digit4': '\'',
+    'Digit5': '(',
+    'Digit6': '-',
+    'Digit7': 'è',
+    'Digit8': '_',
+    'Digit9': 'ç',
+    'Digit0': 'à',
+    'Minus': ')',
+    'KeyQ': 'a',
+    'KeyW': 'z',
+    'BracketLeft': '^',
+    'BracketRight': '$',
+    'KeyA': 'q',
+    'Semicolon': 'm',
+    'Quote': 'ù',
+    'Backslash': '*',
+    'IntlBackslash': '<',
+    'KeyZ': 'w',
+    'KeyM': ',',
+    'Comma': ';',
+    'Period': ':',
+    'Slash': '!',
+  },
+  keyCodes: {
+    186: '$',
+    188: ',',
+    190: ';',
+    191: ':',
+    192: 'ù',
+    219: ')',
+    220: '*',
+    221: '^',
+    222: '²',
+    223: '!',
+    226: '<',
+  },
+};
+
+
+/**
+ * The Swedish and Finnish keyboard layout.
+ */
+var SV_LAYOUT: IKeyboardLayout = {
+  name: 'sv-SE',
+  languages: ['sv', 'fi'],
+  codes: {
+    'Backquote': '§',
+    'Minus': '+',
+    'Equal': '´',
+    'BracketLeft': 'å',
+    'BracketRight': '¨',
+    'Semicolon': 'ö',
+    'Quote': 'ä',
+    'Backslash': '\'',
+    'IntlBackslash': '<',
+    'Slash': '-',
+  },
+  keyCodes: {
+    186: '¨',
+    187: '+',
+    189: '-',
+    191: '\'',
+    192: 'ö',
+    219: '´',
+    220: '§',
+    221: 'å',
+    222: 'ä',
+    226: '<',
+  },
+};
+
+
+/**
+ * The Norwegian keyboard layout.
+ */
+var NB_LAYOUT: IKeyboardLayout = {
+  name: 'nb-NO',
+  languages: ['nb', 'nn', 'no'],
+  codes: {
+    'Backquote': '|',
+    'Minus': '+',
+    'Equal': '\\',
+    'BracketLeft': 'å',
+    'BracketRight': '¨',
+    'Semicolon': 'ø',
+    'Quote': 'æ',
+    'Backslash': '\'',
+    'IntlBackslash': '<',
+    'Slash': '-',
+  },
+  keyCodes: {
+    186: '¨',
+    187: '+',
+    189: '-',
+    191: '\'',
+    192: 'ø',
+    219: '\\',
+    220: '|',
+    221: 'å',
+    222: 'æ',
+    226: '<',
+  },
+};
+
+
+/**
+ * The Danish keyboard layout.
+ */
+var DA_LAYOUT: IKeyboardLayout = {
+  name: 'da-DK',
+  languages: ['da'],
+  codes: {
+    'Backquote': '½',
+    'Minus': '+',
+    'Equal': '´',
+    'BracketLeft': 'å',
+    'BracketRight': '¨',
+    'Semicolon': 'æ',
+    'Quote': 'ø',
+    'Backslash': '\'',
+    'IntlBackslash': '<',
+    'Slash': '-',
+  },
+  keyCodes: {
+    186: '¨',
+    187: '+',
+    189: '-',
+    191: '\'',
+    192: 'æ',
+    219: '´',
+    220: '½',
+    221: 'å',
+    222: 'ø',
+    226: '<',
+  },
+};
+
+
+/**
+ * The registry of keyboard layouts, keyed by name.
+ */
+var registry: { [name: string]: IKeyboardLayout } = {};
+
+
+/**
+ * The currently active keyboard layout.
+ */
+var activeLayout = US_LAYOUT;
+
+
+// Register the built-in keyboard layouts.
+(() => {
+  var builtins = [
+    US_LAYOUT, UK_LAYOUT, DE_LAYOUT, FR_LAYOUT,
+    SV_LAYOUT, NB_LAYOUT, DA_LAYOUT,
+  ];
+  builtins.forEach(layout => { registry[layout.name] = layout; });
+})();
+
+
+/**
+ * Find the registered layout for a browser language tag.
+ *
+ * An exact tag match is preferred over a primary subtag match.
+ *
+ * Returns an empty string if no layout matches the language.
+ */
+function layoutForLanguage(language: string): string {
+  var tag = language.toLowerCase();
+  var primary = tag.split('-')[0];
+  var fallback = '';
+  for (var name in registry) {
+    var languages = registry[name].languages;
+    for (var i = 0, n = languages.length; i < n; ++i) {
+      var lang = languages[i].toLowerCase();
+      if (lang === tag) {
+        return name;
+      }
+      if (!fallback && lang === primary) {
+        fallback = name;
+      }
+    }
+  }
+  return fallback;
+}
+
+
+/**
+ * Compute the number of known keys on which a layout agrees.
+ *
+ * Keys which are not described by the layout are assumed to match
+ * the US layout when they produce a letter, digit, or US symbol.
+ */
+function scoreLayout(layout: IKeyboardLayout, keys: { [code: string]: string }): number {
+  var score = 0;
+  for (var code in keys) {
+    var key = (keys[code] || '').toLowerCase();
+    if (code in layout.codes) {
+      if (layout.codes[code] === key) score++;
+    } else if (US_KEYS[code] === key) {
+      score++;
+    }
+  }
+  return score;
+}
+
+
+/**
+ * A mapping of the printable US physical keys to key character.
+ *
+ * This is used to score layouts for the keys they do not describe.
+ * The keycodes module imports this module, so this table cannot be
+ * replaced by `usKeyForCode` without a circular import.
+ */
+var US_KEYS: { [code: string]: string } = {
+  'Backquote': '`',
+  'Minus': '-',
+  'Equal': '=',
+  'BracketLeft': '[',
+  'BracketRight': ']',
+  'Backslash': '\\',
+  'Semicolon': ';',
+  'Quote': '\'',
+  'Comma': ',',
+  'Period': '.',
+  'Slash': '/',
+};
+
+
+// Populate the letter and digit keys of the US physical keys.
+(() => {
+  for (var i = 0; i < 10; ++i) {
+    US_KEYS['Digit' + i] = '' + i;
+  }
+  for (var j = 65; j <= 90; ++j) {
+    var c = String.fromCharCode(j);
+    US_KEYS['Key' + c] = c.toLowerCase();
+  }
+})();
@@ -0,0 +1,543 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import {
+  DisposableDelegate, IDisposable
+} from 'phosphor-disposable';
+
+import {
+  IBindingEntry, IKeyBinding, KeyTrigger, KeymapLayer, KeymapManager,
+  RejectReason
+} from './manager';
+
+
+/**
+ * An object which describes a command binding in a keymap file.
+ */
+export
+interface IKeymapFileCommand {
+  /**
+   * The id of the command to execute.
+   */
+  command: string;
+
+  /**
+   * The arguments for the command.
+   */
+  args?: any;
+
+  /**
+   * The partial match timeout for the binding, in milliseconds, or
+   * `"infinite"` to wait indefinitely for the next keystroke.
+   */
+  timeout?: number | string;
+
+  /**
+   * The name of the mode to which the binding is scoped.
+   */
+  mode?: string;
+
+  /**
+   * The `when` clause which must be satisfied for the binding.
+   */
+  when?: string;
+
+  /**
+   * The key event which triggers the binding: `"press"`, `"release"`,
+   * or `"hold"`. The default is `"press"`.
+   */
+  trigger?: string;
+
+  /**
+   * The propagation policy for an asynchronous result of the binding:
+   * `"stop"` or `"continue"`. The default is `"stop"`.
+   */
+  propagation?: string;
+
+  /**
+   * Whether the binding blocks re-entry while it is in flight.
+   */
+  exclusive?: boolean;
+}
+
+
+/**
+ * The declarative form of a keymap.
+ *
+ * #### Notes
+ * The keys of the outer object are CSS selectors, and the keys of
+ * the inner objects are key sequences. A key sequence maps to either
+ * a command id or an [[IKeymapFileCommand]]. The special value
+ * `"unset!"` unbinds the key sequence. A key sequence may also map to
+ * an array of command objects, to bind the sequence in several modes
+ * or for several `when` clauses.
+ * For example:
+ *
+ * ```json
+ * {
+ *   ".editor": {
+ *     "accel+s": "editor:save",
+ *     "ctrl+k ctrl+c": { "command": "editor:comment", "args": { "toggle": true } },
+ *     "ctrl+w": "unset!",
+ *     "j": [
+ *       { "command": "cursor:down", "mode": "normal" },
+ *       { "command": "selection:down", "mode": "visual" }
+ *     ]
+ *   }
+ * }
+ * ```
+ */
+export
+interface IKeymapFile {
+  [selector: string]: { [sequence: string]: string | IKeymapFileCommand | IKeymapFileCommand[] };
+}
+
+
+/**
+ * An object which describes an error in a keymap file.
+ */
+export
+interface IKeymapFileError {
+  /**
+   * The JSON path of the offending value, e.g. `$[".editor"]["ctrl+s"]`.
+   */
+  path: string;
+
+  /**
+   * The human-readable description of the error.
+   */
+  message: string;
+}
+
+
+/**
+ * The result of loading a keymap file into a keymap.
+ *
+ * #### Notes
+ * Disposing the result removes the loaded key bindings.
+ */
+export
+interface ILoadResult extends IDisposable {
+  /**
+   * The key bindings which were added to the keymap.
+   *
+   * The sequence of each binding is the normalized sequence.
+   */
+  accepted: IBindingEntry[];
+
+  /**
+   * The errors found in the keymap file.
+   *
+   * The entries with errors are not added to the keymap.
+   */
+  errors: IKeymapFileError[];
+}
+
+
+/**
+ * Load a keymap file into a keymap.
+ *
+ * @param keymap - The keymap which will receive the bindings.
+ *
+ * @param source - The keymap file, either as JSON text or as an
+ *   already parsed object.
+ *
+ * @param layer - The layer for the loaded bindings. The default is
+ *   the `Default` layer.
+ *
+ * @returns The result of loading the file.
+ *
+ * #### Notes
+ * Every entry is validated independently, so an invalid entry does
+ * not prevent the valid entries from being loaded. The bindings for
+ * a selector are added to the keymap in the order of the file.
+ *
+ * Bindings rejected by the keymap are also logged to its logger.
+ */
+export
+function loadKeymap(keymap: KeymapManager, source: string | IKeymapFile, layer = KeymapLayer.Default): ILoadResult {
+  var accepted: IBindingEntry[] = [];
+  var errors: IKeymapFileError[] = [];
+  var disposables: IDisposable[] = [];
+
+  // Create the result which will remove the loaded bindings.
+  var result = new LoadResult(accepted, errors, () => {
+    disposables.forEach(disposable => { disposable.dispose(); });
+  });
+
+  // Parse the source if needed.
+  var file: any = source;
+  if (typeof source === 'string') {
+    try {
+      file = JSON.parse(source as string);
+    } catch (e) {
+      errors.push({ path: '$', message: `invalid JSON: ${e.message}` });
+      return result;
+    }
+  }
+
+  // Bail early if the file is not an object.
+  if (!isObject(file)) {
+    errors.push({ path: '$', message: 'keymap file must be an object' });
+    return result;
+  }
+
+  // Convert and add the bindings for each selector.
+  for (var selector in file) {
+    var selectorPath = `$[${JSON.stringify(selector)}]`;
+    var entries = file[selector];
+    if (!isObject(entries)) {
+      errors.push({
+        path: selectorPath,
+        message: 'selector value must be an object of key sequences',
+      });
+      continue;
+    }
+
+    // Convert the valid entries into key bindings.
+    var bindings: IKeyBinding[] = [];
+    var paths: string[] = [];
+    var commandPaths: string[] = [];
+    for (var sequence in entries) {
+      var path = `${selectorPath}[${JSON.stringify(sequence)}]`;
+      var value = entries[sequence];
+      var values: any[] = Array.isArray(value) ? value : [value];
+      for (var i = 0, n = values.length; i < n; ++i) {
+        var itemPath = Array.isArray(value) ? `${path}[${i}]` : path;
+        var binding = createBinding(sequence, values[i], itemPath, errors);
+        if (binding) {
+          bindings.push(binding);
+          paths.push(itemPath);
+          commandPaths.push(isObject(values[i]) ? `${itemPath}.command` : itemPath);
+        }
+      }
+    }
+    if (bindings.length === 0) {
+      continue;
+    }
+
+    // Add the bindings and record the rejections as errors.
+    var added = keymap.add(selector, bindings, layer);
+    disposables.push(added);
+    var rejectedIndices = added.rejected.map(rejected => rejected.index);
+    var sources = bindings.filter((b, index) => rejectedIndices.indexOf(index) === -1);
+    added.accepted.forEach((binding, index) => {
+      accepted.push({
+        selector: selector, layer: layer,
+        binding: binding, sequence: sources[index].sequence,
+      });
+    });
+    added.rejected.forEach(rejected => {
+      var path = paths[rejected.index];
+      if (rejected.reason === RejectReason.InvalidSelector) {
+        path = selectorPath;
+      } else if (rejected.reason === RejectReason.InvalidTimeout) {
+        path += '.timeout';
+      } else if (rejected.reason === RejectReason.InvalidCommand) {
+        path = commandPaths[rejected.index];
+      } else if (rejected.reason === RejectReason.InvalidWhen) {
+        path += '.when';
+      } else if (rejected.reason === RejectReason.InvalidTrigger) {
+        path += '.trigger';
+      }
+      errors.push({ path: path, message: rejected.message });
+    });
+  }
+
+  return result;
+}
+
+
+/**
+ * Serialize the command bindings of a keymap to a keymap file.
+ *
+ * @param keymap - The keymap of interest.
+ *
+ * @returns The JSON text of the keymap file.
+ *
+ * #### Notes
+ * This is equivalent to calling [[serializeBindings]] with the
+ * bindings of the keymap. The layers of the bindings are not
+ * recorded in the file.
+ */
+export
+function serializeKeymap(keymap: KeymapManager): string {
+  return serializeBindings(keymap.bindings);
+}
+
+
+/**
+ * Serialize binding entries to a keymap file.
+ *
+ * @param entries - The binding entries in priority order, such as the
+ *   result of `KeymapManager#diffUserLayer`.
+ *
+ * @returns The JSON text of the keymap file.
+ *
+ * #### Notes
+ * Bindings with a handler function cannot be expressed in a keymap
+ * file, so only command bindings and unbindings are serialized.
+ *
+ * The bindings are written from lowest to highest priority, so that
+ * loading the output into an empty keymap reproduces the precedence
+ * of bindings with equal specificity. If several bindings have the
+ * same selector, sequence, mode, `when` clause, and trigger, only
+ * the one which wins is written.
+ *
+ * The sequences are written as they were originally written, so a
+ * sequence with the `accel` modifier remains portable across
+ * platforms. An infinite timeout is written as `"infinite"`.
+ */
+export
+function serializeBindings(entries: IBindingEntry[]): string {
+  // Collect the winning entry for each selector, sequence, and mode.
+  var grouped: { [selector: string]: { [sequence: string]: IBindingEntry[] } } = {};
+  for (var i = entries.length - 1; i >= 0; --i) {
+    var entry = entries[i];
+    var binding = entry.binding;
+    if (!binding.command && !binding.unbind) {
+      continue;
+    }
+    if (!(entry.selector in grouped)) {
+      grouped[entry.selector] = {};
+    }
+    var group = grouped[entry.selector];
+    var others = (group[binding.sequence] || []).filter(other => {
+      return (
+        (other.binding.mode || '') !== (binding.mode || '') ||
+        (other.binding.when || '') !== (binding.when || '') ||
+        (other.binding.trigger || KeyTrigger.Press) !== (binding.trigger || KeyTrigger.Press)
+      );
+    });
+    group[binding.sequence] = others.concat([entry]);
+  }
+
+  // Collect the bindings by their original sequence.
+  var written: { [selector: string]: { [sequence: string]: IKeyBinding[] } } = {};
+  for (var selector in grouped) {
+    var bySource: { [sequence: string]: IKeyBinding[] } = {};
+    for (var sequence in grouped[selector]) {
+      grouped[selector][sequence].forEach(entry => {
+        var source = entry.sequence;
+        bySource[source] = (bySource[source] || []).concat([entry.binding]);
+      });
+    }
+    written[selector] = bySource;
+  }
+
+  // Convert the bindings into keymap file values.
+  var file: IKeymapFile = {};
+  for (var selector in written) {
+    file[selector] = {};
+    for (var sequence in written[selector]) {
+      var bindings = written[selector][sequence];
+      if (bindings.length === 1) {
+        file[selector][sequence] = createValue(bindings[0]);
+      } else {
+        file[selector][sequence] = bindings.map(createCommand);
+      }
+    }
+  }
+  return JSON.stringify(file, null, 2);
+}
+
+
+/**
+ * A concrete implementation of `ILoadResult`.
+ */
+class LoadResult extends DisposableDelegate implements ILoadResult {
+  /**
+   * Construct a new load result.
+   *
+   * @param accepted - The key bindings which were added.
+   *
+   * @param errors - The errors found in the keymap file.
+   *
+   * @param callback - The callback which removes the bindings.
+   */
+  constructor(accepted: IBindingEntry[], errors: IKeymapFileError[], callback: () => void) {
+    super(callback);
+    this.accepted = accepted;
+    this.errors = errors;
+  }
+
+  /**
+   * The key bindings which were added to the keymap.
+   */
+  accepted: IBindingEntry[];
+
+  /**
+   * The errors found in the keymap file.
+   */
+  errors: IKeymapFileError[];
+}
+
+
+/**
+ * The keymap file value which unbinds a key sequence.
+ */
+var UNSET = 'unset!';
+
+
+/**
+ * The keymap file value of an infinite timeout.
+ */
+var INFINITE = 'infinite';
+
+
+/**
+ * The allowed property names of a command binding object.
+ */
+var COMMAND_PROPERTIES = [
+  'command', 'args', 'timeout', 'mode', 'when', 'trigger', 'propagation',
+  'exclusive',
+];
+
+
+/**
+ * The keymap file names of the key binding triggers.
+ */
+var TRIGGER_NAMES = ['press', 'release', 'hold'];
+
+
+/**
+ * The keymap file names of the propagation policies.
+ */
+var PROPAGATION_NAMES = ['stop', 'continue'];
+
+
+/**
+ * Test whether a value is a plain JSON object.
+ */
+function isObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+
+/**
+ * Create the compact keymap file value for a key binding.
+ */
+function createValue(binding: IKeyBinding): string | IKeymapFileCommand {
+  var compact = (
+    !binding.mode && binding.when === void 0 && !binding.trigger &&
+    binding.args === void 0 && binding.timeout === void 0 &&
+    !binding.propagation && !binding.exclusive
+  );
+  if (!compact) {
+    return createCommand(binding);
+  }
+  return binding.command || UNSET;
+}
+
+
+/**
+ * Create the keymap file command object for a key binding.
+ *
+ * An unbinding is written with the `"unset!"` command.
+ */
+function createCommand(binding: IKeyBinding): IKeymapFileCommand {
+  var command: IKeymapFileCommand = { command: binding.command || UNSET };
+  if (binding.args !== void 0) command.args = binding.args;
+  if (binding.timeout !== void 0) {
+    command.timeout = isFinite(binding.timeout) ? binding.timeout : INFINITE;
+  }
+  if (binding.mode) command.mode = binding.mode;
+  if (binding.when !== void 0) command.when = binding.when;
+  if (binding.trigger) command.trigger = TRIGGER_NAMES[binding.trigger];
+  if (binding.propagation) command.propagation = PROPAGATION_NAMES[binding.propagation];
+  if (binding.exclusive) command.exclusive = true;
+  return command;
+}
+
+
+/**
+ * Create a key binding for a keymap file entry.
+ *
+ * Returns `null` and records an error if the entry is malformed.
+ */
+function createBinding(sequence: string, value: any, path: string, errors: IKeymapFileError[]): IKeyBinding {
+  if (value === UNSET) {
+    return { sequence: sequence, unbind: true };
+  }
+  if (typeof value === 'string') {
+    return { sequence: sequence, command: value };
+  }
+  if (!isObject(value)) {
+    errors.push({
+      path: path,
+      message: 'binding must be a command id or a command object',
+    });
+    return null;
+  }
+  var valid = true;
+  for (var key in value) {
+    if (COMMAND_PROPERTIES.indexOf(key) === -1) {
+      errors.push({ path: `${path}.${key}`, message: `unknown property: ${key}` });
+      valid = false;
+    }
+  }
+  if (typeof value.command !== 'string') {
+    errors.push({ path: `${path}.command`, message: 'command must be a string' });
+    valid = false;
+  }
+  if (value.timeout !== void 0 && typeof value.timeout !== 'number' && value.timeout !== INFINITE) {
+    errors.push({
+      path: `${path}.timeout`,
+      message: `timeout must be a number or "${INFINITE}"`,
+    });
+    valid = false;
+  }
+  if (value.mode !== void 0 && typeof value.mode !== 'string') {
+    errors.push({ path: `${path}.mode`, message: 'mode must be a string' });
+    valid = false;
+  }
+  if (value.when !== void 0 && typeof value.when !== 'string') {
+    errors.push({ path: `${path}.when`, message: 'when must be a string' });
+    valid = false;
+  }
+  if (value.trigger !== void 0 && TRIGGER_NAMES.indexOf(value.trigger) === -1) {
+    errors.push({
+      path: `${path}.trigger`,
+      message: `trigger must be one of: ${TRIGGER_NAMES.join(', ')}`,
+    });
+    valid = false;
+  }
+  if (value.propagation !== void 0 && PROPAGATION_NAMES.indexOf(value.propagation) === -1) {
+    errors.push({
+      path: `${path}.propagation`,
+      message: `propagation must be one of: ${PROPAGATION_NAMES.join(', ')}`,
+    });
+    valid = false;
+  }
+  if (value.exclusive !== void 0 && typeof value.exclusive !== 'boolean') {
+    errors.push({ path: `${path}.exclusive`, message: 'exclusive must be a boolean' });
+    valid = false;
+  }
+  if (!valid) {
+    return null;
+  }
+  var binding: IKeyBinding = { sequence: sequence };
+  if (value.command === UNSET) {
+    binding.unbind = true;
+  } else {
+    binding.command = value.command;
+  }
+  if (value.args !== void 0) binding.args = value.args;
+  if (value.timeout !== void 0) {
+    binding.timeout = value.timeout === INFINITE ? Infinity : value.timeout;
+  }
+  if (value.mode !== void 0) binding.mode = value.mode;
+  if (value.when !== void 0) binding.when = value.when;
+  if (value.trigger !== void 0) binding.trigger = TRIGGER_NAMES.indexOf(value.trigger);
+  if (value.propagation !== void 0) {
+    binding.propagation = PROPAGATION_NAMES.indexOf(value.propagation);
+  }
+  if (value.exclusive) binding.exclusive = true;
+  return binding;
+}
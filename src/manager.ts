@@ -16,10 +16,84 @@ import {
 } from 'phosphor-disposable';
 
 import {
-  isModifierKeyCode, keystrokeForKeydownEvent, normalizeKeystroke
+  ISignal, Signal
+} from 'phosphor-signaling';
+
+import {
+  CommandRegistry
+} from './commands';
+
+import {
+  ContextKeyService, IWhenClause, parseWhenClause
+} from './context';
+
+import {
+  IKeystrokeResult, KeyResolution, Platform, detectPlatform, isModifierKey,
+  normalizeKeystroke, resolveKeydownEvent
 } from './keycodes';
 
 
+/**
+ * An object which provides the context for a key binding handler.
+ */
+export
+interface IKeyHandlerContext {
+  /**
+   * The `'keydown'` event which completed the key sequence.
+   */
+  event: KeyboardEvent;
+
+  /**
+   * The `'keydown'` events for each keystroke of the key sequence.
+   *
+   * This includes the events of the count prefix, if any. The event
+   * of a lone modifier keystroke is its `'keyup'` event.
+   */
+  events: KeyboardEvent[];
+
+  /**
+   * The element which matched the selector of the key binding.
+   *
+   * This is the event target or the ancestor of the target at which
+   * the dispatcher found the binding.
+   */
+  target: Element;
+
+  /**
+   * The normalized key sequence of the key binding.
+   */
+  sequence: string;
+
+  /**
+   * The CSS selector of the key binding.
+   */
+  selector: string;
+
+  /**
+   * The keymap manager which dispatched the key binding.
+   */
+  manager: KeymapManager;
+
+  /**
+   * The count prefix entered before the key sequence.
+   *
+   * This is `null` if no count prefix was entered, so handlers which
+   * support a repeat count typically use `context.count || 1`.
+   */
+  count: number;
+}
+
+
+/**
+ * A handler function for a key binding.
+ *
+ * The handler returns `true` to consume the key event, or a promise
+ * for an asynchronous handler.
+ */
+export
+type KeyBindingHandler = (context: IKeyHandlerContext) => boolean | PromiseLike<any>;
+
+
 /**
  * An object which represents a key binding.
  */
@@ -32,13 +106,24 @@ interface IKeyBinding {
    *
    *   `[<modifier-1>+[<modifier-2>+[<modifier-n>+]]]<key>`
    *
-   *   - Supported modifiers are `'ctrl'`, `'alt'`, `'shift'`, `'cmd'`.
+   *   - Supported modifiers are `'ctrl'`, `'alt'`, `'shift'`, `'cmd'`,
+   *     and `'accel'`.
    *   - The `'cmd'` modifier only works on OSX (browser limitation).
+   *   - The `'accel'` modifier is `'cmd'` on OSX and `'ctrl'` elsewhere.
    *   - The modifiers may appear in any order.
    *   - The modifiers cannot appear in duplicate.
    *   - The primary key must be a valid key character.
+   *   - The primary key may be a physical key, written as the
+   *     bracketed `KeyboardEvent.code` of the key, e.g. `[KeyW]`.
+   *   - A keystroke may be a lone modifier, e.g. `shift`, which is
+   *     matched when the modifier key is pressed and released without
+   *     pressing any other key.
+   *   - A keystroke may be a chord of two primary keys, e.g. `j+k`,
+   *     which is matched when the second key is pressed within the
+   *     chord window of the keymap while the first key is held.
    *   - The keystroke is case insensitive.
    *   - Mutliple keystrokes are separated by whitespace.
+   *   - Logical and physical keystrokes may be mixed in a sequence.
    *
    * #### Example
    * **Valid Key Sequences**
@@ -52,6 +137,15 @@ interface IKeyBinding {
    * 'shift+f11'
    * 'ctrl+k ctrl+t'
    * 'alt+cmd+y ctrl+4 alt+]'
+   * 'accel+s'
+   * 'accel+k accel+shift+t'
+   * '[KeyW]'
+   * 'shift+[KeyD]'
+   * 'ctrl+k [Digit1]'
+   * 'alt'
+   * 'shift shift'
+   * 'j+k'
+   * 'ctrl+k ctrl+s+d'
    * ```
    *
    * **Invalid Key Sequences**
@@ -61,7 +155,10 @@ interface IKeyBinding {
    * 'ctrl-a'
    * '+ctrl+a'
    * 'shift++o'
-   * 'ctrl+a shift'
+   * 'ctrl+shift'
+   * 'j+k+l'
+   * '[KeyAA]'
+   * '[ShiftLeft]'
    * ```
    */
   sequence: string;
@@ -72,380 +169,3339 @@ interface IKeyBinding {
    * The handler should return `true` to prevent the default and stop
    * propagation of the key event. It should return `false` to allow
    * the continued processing of the event.
+   *
+   * The handler is invoked with the context of the match. Handlers
+   * which do not need the context may ignore the argument.
+   *
+   * An asynchronous handler may return a promise instead. Since the
+   * propagation of the event must be decided synchronously, it is
+   * decided by the `propagation` policy of the binding, and the
+   * promise is tracked by the keymap until it settles.
+   *
+   * A binding must specify exactly one of `handler`, `command`, or
+   * `unbind`.
    */
-  handler: () => boolean;
-}
-
+  handler?: KeyBindingHandler;
 
-/**
- * A class which manages a collection of key bindings.
- */
-export
-class KeymapManager {
   /**
-   * Construct a new key map.
+   * The id of the command to execute when the key sequence is matched.
+   *
+   * The command is executed using the command registry of the keymap.
+   * A matched command binding always consumes the key event, unless
+   * the command is not registered or is disabled, in which case the
+   * binding is ignored as if it did not match.
+   *
+   * If the command returns a promise, it is tracked by the keymap
+   * like the promise of an asynchronous handler.
+   *
+   * A binding must specify exactly one of `handler`, `command`, or
+   * `unbind`.
    */
-  contstructor() { }
+  command?: string;
 
   /**
-   * Add key bindings to the key map.
-   *
-   * @param selector - The CSS selector for the key bindings.
+   * The arguments to pass to the command.
    *
-   * @param bindings - The key bindings to add to the key map.
-   *
-   * @returns A disposable which will remove the key bindings.
+   * This is ignored for a binding which does not specify a command.
+   */
+  args?: any;
+
+  /**
+   * The partial match timeout for the key binding, in milliseconds.
    *
-   * #### Notes
-   * If the selector is an invalid CSS selector, a warning will
-   * be logged to the console and `undefined` will be returned.
+   * This overrides the timeout of the keymap while the binding is a
+   * partial match for the pending key sequence. When more than one
+   * binding partially matches, the longest timeout is used.
    *
-   * If the key sequence for a binding is invalid, or if a binding
-   * has a null handler, a warning will be logged to the console
-   * and that binding will be ignored.
+   * A timeout of `Infinity` disables the timeout, so the keymap waits
+   * until a non-matching keystroke or `Escape` is pressed.
    */
-  add(selector: string, bindings: IKeyBinding[]): IDisposable {
-    // Log a warning and bail if the selector is invalid.
-    if (!isSelectorValid(selector)) {
-      console.warn(`Invalid key binding selector: ${selector}`);
-      return void 0;
-    }
-
-    // The newly created ex bindings for the valid key bindings.
-    var newBindings: ExBinding[] = [];
-
-    // Iterate over the bindings and covert them into ex bindings.
-    for (var i = 0, n = bindings.length; i < n; ++i) {
-      var binding = bindings[i];
-
-      // If the binding does not have a handler, warn and continue.
-      if (!binding.handler) {
-        console.warn(`null handler for key binding: ${binding.sequence}`);
-        continue;
-      }
-
-      // Trim the key sequence and split into individual keystrokes.
-      var keystrokes = binding.sequence.trim().split(/\s+/);
-
-      // Normalize each keystroke and re-join into a canoncial form.
-      // If any of the keystrokes are invalid, warn and continue.
-      try {
-        var sequence = keystrokes.map(normalizeKeystroke).join(' ');
-      } catch (e) {
-        console.warn(`invalid key binding sequence: ${binding.sequence}`);
-        continue;
-      }
-
-      // Create a new extended binding and add it to the arrays.
-      var exb = new ExBinding(selector, sequence, binding.handler);
-      this._bindings.push(exb);
-      newBindings.push(exb);
-    }
-
-    // Return a disposable which will remove the new bindings.
-    return new DisposableDelegate(() => this._removeBindings(newBindings));
-  }
+  timeout?: number;
 
   /**
-   * Process a `'keydown'` event and invoke the matching key bindings.
+   * Whether the key binding explicitly unbinds its key sequence.
    *
-   * @param event - The event object for a `'keydown'` event.
+   * When an unbinding is matched during dispatch, the dispatch stops
+   * without invoking any binding which comes after it, and the event
+   * falls through to the browser. This is typically used in the user
+   * layer to remove a default binding.
    *
-   * #### Notes
-   * This should be called by user code in response to a `'keydown'`
-   * event. The keymap **does not** install its own event listeners,
-   * which allows user code full control over the nodes for which
-   * the keymap processes events.
+   * A binding must specify exactly one of `handler`, `command`, or
+   * `unbind`.
    */
-  processKeydownEvent(event: KeyboardEvent): void {
-    // If the actual pressed key is a modifier key, prevent the default
-    // and return. No bindings can be matched for *just* modifier keys.
-    if (isModifierKeyCode(event.keyCode)) {
-      event.preventDefault();
-      return;
-    }
-
-    // Get the normalized keystroke and store it as a pending.
-    this._keystrokes.push(keystrokeForKeydownEvent(event));
-
-    // Convert the pending keystrokes to a sequence.
-    var sequence = this._keystrokes.join(' ');
-
-    // Find the exact and partial matches for the key sequence.
-    var matches = findSequenceMatches(this._bindings, sequence);
-
-    // If there are no exact match and not partial matches, clear
-    // all pending state so the next key press starts from default.
-    if (matches.exact.length === 0 && matches.partial.length === 0) {
-      this._clearPendingState();
-      return;
-    }
-
-    // If there are exact matches but no partial matches, the exact
-    // matches can be dispatched immediately. The pending state is
-    // reset so the next key press starts from default.
-    if (matches.partial.length === 0) {
-      this._clearPendingState();
-      dispatchBindings(matches.exact, event);
-      return;
-    }
-
-    // At this point, there are partial matches.
-
-    // If there are exact matches and partial matches, the exact
-    // matches are stored so they can be dispatched if the timer
-    // expires before a more specific match is found.
-    if (matches.exact.length > 0) {
-      this._setExactData(matches.exact, event);
-    }
-
-    // Restart the timer for equal intervals between keystrokes.
-    //
-    // TODO - we may want to replay prevented defaults if match fails.
-    //      - we may also want to stop propagation until match fails.
-    event.preventDefault();
-    this._startTimer();
-  }
+  unbind?: boolean;
 
   /**
-   * Remove an array of ex key bindings from the key map.
+   * The name of the mode to which the key binding is scoped.
+   *
+   * A binding with a mode is only active while that mode is the
+   * current mode of the keymap. A binding without a mode is active
+   * in every mode.
    */
-  private _removeBindings(arr: ExBinding[]): void {
-    this._bindings = this._bindings.filter(b => arr.indexOf(b) === -1);
-  }
+  mode?: string;
 
   /**
-   * Start or restart the pending timer for the key map.
+   * The `when` clause which must be satisfied for the binding.
+   *
+   * The clause is evaluated against the context key service of the
+   * keymap when the binding is dispatched. A binding whose clause is
+   * not satisfied is treated as if its selector did not match. See
+   * `parseWhenClause` for the syntax of the clause.
    */
-  private _startTimer(): void {
-    this._clearTimer();
-    this._timer = setTimeout(() => {
-      this._onPendingTimeout();
-    }, this._partialTimeout);
-  }
+  when?: string;
 
   /**
-   * Clear the pending timer for the key map.
+   * The propagation policy for an asynchronous result of the binding.
+   *
+   * This applies when the handler or command returns a promise. The
+   * default is `PropagationPolicy.Stop`.
    */
-  private _clearTimer(): void {
-    if (this._timer !== 0) {
-      clearTimeout(this._timer);
-      this._timer = 0;
-    }
-  }
+  propagation?: PropagationPolicy;
 
   /**
-   * Clear the pending state for the keymap.
+   * Whether the binding blocks re-entry while it is in flight.
+   *
+   * If this is `true`, the binding is not invoked again until the
+   * promise of its previous invocation settles. A matching event
+   * which arrives in the meantime is handled as if the binding
+   * returned a promise, so its propagation policy still applies.
+   * The default is `false`.
    */
-  private _clearPendingState(): void {
-    this._clearTimer();
-    this._exactData = null;
-    this._keystrokes.length = 0;
-  }
+  exclusive?: boolean;
 
   /**
-   * Set the pending exact match data.
+   * The kind of key event which triggers the binding.
+   *
+   * `Release` and `Hold` bindings must have a single keystroke. The
+   * default is `KeyTrigger.Press`.
    */
-  private _setExactData(exact: ExBinding[], event: KeyboardEvent): void {
-    if (!this._exactData) {
-      this._exactData = { exact: exact, event: event };
-    } else {
-      this._exactData.exact = exact;
-      this._exactData.event = event;
-    }
-  }
+  trigger?: KeyTrigger;
 
   /**
-   * Handle the partial timer timeout.
+   * The handler function to invoke when the triggering key is released.
+   *
+   * This pairs a release handler with a `Press` or `Hold` binding. It
+   * is invoked once for each invocation of the binding which handled
+   * the event, when the last key of the sequence is released. The
+   * context `event` is the `'keyup'` event, which is also the last of
+   * the context `events`.
    *
-   * This will reset the pending state and dispatch the exact matches.
+   * This is not valid for a `Release` binding.
    */
-  private _onPendingTimeout(): void {
-    this._timer = 0;
-    var d = this._exactData;
-    this._clearPendingState();
-    if (d) dispatchBindings(d.exact, d.event);
-  }
-
-  private _timer = 0;
-  private _partialTimeout = 1000;
-  private _keystrokes: string[] = [];
-  private _bindings: ExBinding[] = [];
-  private _exactData: IExactData = null;
+  releaseHandler?: (context: IKeyHandlerContext) => void;
 }
 
 
 /**
- * An extended key bind object used by a keymap manager.
+ * An enum of the key events which trigger a key binding.
  */
-class ExBinding {
+export
+enum KeyTrigger {
   /**
-   * A monotonically increasing binding identifier.
-   *
-   * The binding id is used to break sorting ties.
+   * The binding is triggered when its key sequence is pressed.
    */
-  static idTick = 0;
+  Press,
 
   /**
-   * A comparison function for extended bindings.
+   * The binding is triggered when its key is released.
    *
-   * This can be used to sort an array of bindings according to
-   * highest CSS specificity. Ties are broken according to the
-   * binding id, with newer bindings appearing first.
+   * The keystroke is matched against the key as it was pressed, so
+   * modifiers released before the key do not prevent the match.
    */
-  static compare(exA: ExBinding, exB: ExBinding): number {
-    if (exA._specificity === exB._specificity) {
-      return exB._id - exA._id;
-    }
-    return exB._specificity - exA._specificity;
-  }
+  Release,
 
   /**
-   * Construct a new extended key binding.
-   *
-   * @param selector - The valid CSS selector for the binding.
-   *
-   * @param sequence - The normalized key binding sequence.
-   *
-   * @param handler - The handler function for the binding.
+   * The binding is triggered when its key is held down for longer
+   * than the hold time of the keymap.
    */
-  constructor(selector: string, sequence: string, handler: () => boolean) {
-    this._selector = selector;
-    this._sequence = sequence;
-    this._handler = handler;
-    this._specificity = calculateSpecificity(selector);
-  }
+  Hold,
+}
+
 
+/**
+ * An enum of propagation policies for asynchronous key bindings.
+ */
+export
+enum PropagationPolicy {
   /**
-   * Create a public key binding object for this extended binding.
+   * The event is handled: its default action is prevented and its
+   * propagation is stopped, as if the handler returned `true`.
    */
-  toBinding(): IKeyBinding {
-    return { sequence: this._sequence, handler: this._handler };
-  }
+  Stop,
 
   /**
-   * Test whether the binding is an exact match for a key sequence.
+   * The event is not handled, as if the handler returned `false`,
+   * so the dispatch continues with the next matching binding.
    */
-  isExactMatch(sequence: string): boolean {
-    return this._sequence === sequence;
-  }
+  Continue,
+}
 
+
+/**
+ * An enum of policies for replaying swallowed `'keydown'` events.
+ *
+ * #### Notes
+ * The default action of a `'keydown'` event is prevented while the
+ * event partially matches a multi-stroke key sequence. If the sequence
+ * subsequently fails to match, the replay policy determines what is
+ * done with those swallowed events.
+ */
+export
+enum ReplayPolicy {
   /**
-   * Test whether the binding is a partial match for a key sequence.
+   * The swallowed events are discarded.
    */
-  isPartialMatch(sequence: string): boolean {
-    return this._sequence.indexOf(sequence) === 0;
-  }
+  None,
 
   /**
-   * Test whether the binding selector matches an element.
+   * The swallowed events are passed to the replay handler.
    */
-  isSelectorMatch(target: Element): boolean {
-    return matchesSelector(target, this._selector);
-  }
+  Callback,
 
   /**
-   * Invoke the handler for the binding and return its result.
+   * The text input of the swallowed events is synthesized when the
+   * event target is an editable element.
    */
-  invoke(): boolean {
-    return this._handler.call(void 0);
-  }
-
-  private _sequence: string;
-  private _selector: string;
-  private _specificity: number;
-  private _handler: () => boolean;
-  private _id = ExBinding.idTick++;
+  Synthesize,
 }
 
 
 /**
- * An object which holds pending exact match data.
+ * An enum of the layers of a keymap.
+ *
+ * #### Notes
+ * The bindings of a higher layer always take precedence over the
+ * bindings of a lower layer, regardless of selector specificity or
+ * of which element in the DOM matched the selector.
  */
-interface IExactData {
+export
+enum KeymapLayer {
   /**
-   * The exact match bindings.
+   * The layer for the default bindings of an application.
    */
-  exact: ExBinding[];
+  Default,
 
   /**
-   * The keyboard event which triggered the exact match.
+   * The layer for the bindings contributed by extensions.
    */
-  event: KeyboardEvent;
+  Extension,
+
+  /**
+   * The layer for the bindings customized by the user.
+   */
+  User,
 }
 
 
 /**
- * An object which holds the results of a sequence match.
+ * An object which describes a key binding registered with a keymap.
  */
-interface IMatchResult {
+export
+interface IBindingEntry {
   /**
-   * The bindings which exactly match the key sequence.
+   * The CSS selector for the key binding.
    */
-  exact: ExBinding[];
+  selector: string;
 
   /**
-   * The bindings which partially match the key sequence.
+   * The layer of the key binding.
    */
-  partial: ExBinding[];
-}
+  layer: KeymapLayer;
 
+  /**
+   * The key binding, with its normalized key sequence.
+   */
+  binding: IKeyBinding;
 
-/**
- * Filter the bindings for those which match the given sequence.
- *
- * The result contains both exact matches and partial matches.
- */
-function findSequenceMatches(bindings: ExBinding[], sequence: string): IMatchResult {
-  var exact: ExBinding[] = [];
-  var partial: ExBinding[] = [];
-  var partialSequence = sequence + ' ';
-  for (var i = 0, n = bindings.length; i < n; ++i) {
-    var exb = bindings[i];
-    if (exb.isExactMatch(sequence)) {
-      exact.push(exb);
-    } else if (exb.isPartialMatch(partialSequence)) {
-      partial.push(exb);
-    }
-  }
-  return { exact: exact, partial: partial };
+  /**
+   * The key sequence of the binding as it was written.
+   *
+   * Unlike the normalized sequence, this may contain the portable
+   * `accel` modifier, so it is the form written to keymap files.
+   */
+  sequence: string;
 }
 
 
 /**
- * Filter the bindings for those with a matching selector.
+ * An enum of the reasons a key binding is rejected by a keymap.
  */
-function findSelectorMatches(bindings: ExBinding[], target: Element): ExBinding[] {
-  var matches = bindings.filter(exb => exb.isSelectorMatch(target));
-  return matches.sort(ExBinding.compare);
-}
+export
+enum RejectReason {
+  /**
+   * The selector for the binding is not a valid CSS selector.
+   */
+  InvalidSelector,
 
+  /**
+   * The binding has neither a handler nor a command.
+   */
+  NullHandler,
 
-/**
- * Dispatch the key bindings for the given keyboard event.
- *
- * As the dispatcher walks up the DOM, the bindings will be filtered
- * for matching selectors, and invoked in specificity order. If the
- * handler for a binding returns `true`, dispatch will terminate and
- * the event propagation will be stopped.
- */
-function dispatchBindings(bindings: ExBinding[], event: KeyboardEvent): void {
-  var target = event.target as Element;
-  var current = event.currentTarget as Element;
-  while (target) {
-    var matches = findSelectorMatches(bindings, target);
+  /**
+   * The binding has more than one of a handler, a command, and an
+   * unbinding, or the binding has a command but the keymap does not
+   * have a command registry.
+   */
+  InvalidCommand,
+
+  /**
+   * The key sequence of the binding is empty or invalid.
+   */
+  InvalidSequence,
+
+  /**
+   * The timeout of the binding is negative or not a number.
+   */
+  InvalidTimeout,
+
+  /**
+   * The `when` clause of the binding has invalid syntax.
+   */
+  InvalidWhen,
+
+  /**
+   * The trigger of the binding is invalid for its key sequence, or
+   * a `Release` binding has a release handler.
+   */
+  InvalidTrigger,
+}
+
+
+/**
+ * An object which describes a key binding rejected by a keymap.
+ */
+export
+interface IRejectedBinding {
+  /**
+   * The index of the binding in the array passed to `add`.
+   */
+  index: number;
+
+  /**
+   * The key binding which was rejected.
+   */
+  binding: IKeyBinding;
+
+  /**
+   * The machine-readable reason the binding was rejected.
+   */
+  reason: RejectReason;
+
+  /**
+   * The human-readable message which was logged for the binding.
+   */
+  message: string;
+}
+
+
+/**
+ * The result of adding key bindings to a keymap.
+ *
+ * #### Notes
+ * Disposing the result removes the accepted key bindings.
+ */
+export
+interface IAddResult extends IDisposable {
+  /**
+   * The key bindings which were added to the keymap.
+   *
+   * The sequence of each binding is the normalized sequence.
+   */
+  accepted: IKeyBinding[];
+
+  /**
+   * The key bindings which were rejected by the keymap.
+   */
+  rejected: IRejectedBinding[];
+}
+
+
+/**
+ * An object which receives the warnings reported by a keymap.
+ *
+ * #### Notes
+ * The browser `console` is a valid logger.
+ */
+export
+interface IKeymapLogger {
+  /**
+   * Log a warning message.
+   *
+   * @param message - The warning message to log.
+   */
+  warn(message: string): void;
+}
+
+
+/**
+ * An enum of the changes to the pending key sequence of a keymap.
+ */
+export
+enum PendingChange {
+  /**
+   * A keystroke was added to the pending sequence.
+   */
+  Extended,
+
+  /**
+   * The pending sequence was completed by an exact match.
+   */
+  Completed,
+
+  /**
+   * The pending sequence was broken by a non-matching keystroke.
+   */
+  Failed,
+
+  /**
+   * The pending sequence expired before it was completed.
+   */
+  TimedOut,
+
+  /**
+   * The pending sequence was cancelled by user code.
+   */
+  Cancelled,
+}
+
+
+/**
+ * The arguments object for the `pendingChanged` signal.
+ */
+export
+interface IPendingChangedArgs {
+  /**
+   * The kind of change to the pending sequence.
+   */
+  change: PendingChange;
+
+  /**
+   * The normalized keystrokes of the pending sequence.
+   *
+   * For a change which ends the pending sequence, these are the
+   * keystrokes which were pending when the sequence ended.
+   */
+  keystrokes: string[];
+}
+
+
+/**
+ * An options object for enabling count prefixes in a keymap.
+ *
+ * #### Notes
+ * A count prefix is entered before a key sequence and is passed to
+ * the handler of the binding, e.g. `3 d d` in Vim or `ctrl+u 4 ctrl+n`
+ * in Emacs.
+ */
+export
+interface ICountPrefixOptions {
+  /**
+   * Whether unmodified digit keys start a count prefix.
+   *
+   * A count prefix cannot start with `0`, so a binding for `0` still
+   * works when it is not preceded by a count. The default is `true`.
+   */
+  digits?: boolean;
+
+  /**
+   * The keystroke for the universal argument, e.g. `'ctrl+u'`.
+   *
+   * The universal argument sets the count to `4`, and multiplies the
+   * count by `4` each time it is repeated. Digit keys which follow it
+   * replace the count, even if `digits` is `false`. The default is no
+   * universal argument.
+   */
+  universal?: string;
+}
+
+
+/**
+ * The arguments object for the `modeChanged` signal.
+ */
+export
+interface IModeChangedArgs {
+  /**
+   * The previous current mode, or an empty string for no mode.
+   */
+  oldMode: string;
+
+  /**
+   * The new current mode, or an empty string for no mode.
+   */
+  newMode: string;
+}
+
+
+/**
+ * An options object for initializing a keymap manager.
+ */
+export
+interface IKeymapManagerOptions {
+  /**
+   * The platform used to resolve the `'accel'` modifier.
+   *
+   * The default is the platform detected from the browser.
+   */
+  platform?: Platform;
+
+  /**
+   * The default partial match timeout, in milliseconds.
+   *
+   * This is the time the keymap waits for the next keystroke of a
+   * partially matched key sequence. A timeout of `Infinity` disables
+   * the timeout. The default is `1000`.
+   */
+  timeout?: number;
+
+  /**
+   * The policy for replaying swallowed events of a failed sequence.
+   *
+   * The default is `ReplayPolicy.None`.
+   */
+  replayPolicy?: ReplayPolicy;
+
+  /**
+   * The handler for swallowed events of a failed sequence.
+   *
+   * This is invoked with the swallowed events, in the order they
+   * were received, when the replay policy is `Callback`.
+   */
+  replayHandler?: (events: KeyboardEvent[]) => void;
+
+  /**
+   * The command registry for bindings which specify a command.
+   *
+   * A keymap without a command registry rejects command bindings.
+   */
+  commands?: CommandRegistry;
+
+  /**
+   * The logger for the warnings reported by the keymap.
+   *
+   * The default is the browser console.
+   */
+  logger?: IKeymapLogger;
+
+  /**
+   * The context key service for the `when` clauses of bindings.
+   *
+   * The default is a new empty context key service.
+   */
+  context?: ContextKeyService;
+
+  /**
+   * The handler for the rejected promises of asynchronous bindings.
+   *
+   * This is invoked with the rejection reason and the key binding
+   * which returned the promise. The default logs a warning to the
+   * logger of the keymap.
+   */
+  errorHandler?: (error: any, binding: IKeyBinding) => void;
+
+  /**
+   * The time a key must be held to trigger `Hold` bindings, in
+   * milliseconds. The default is `500`.
+   */
+  holdTime?: number;
+
+  /**
+   * The time to wait for the second key of a chord, in milliseconds.
+   *
+   * A key which may start a chord binding whose selector matches the
+   * event target is deferred for at most this time. The default is
+   * `50`.
+   *
+   * If the chord is not completed and no other binding consumes the
+   * deferred key, the key is re-delivered regardless of the replay
+   * policy: it is passed to the replay handler for the `Callback`
+   * policy, and its text input is synthesized otherwise.
+   */
+  chordWindow?: number;
+}
+
+
+/**
+ * A class which manages a collection of key bindings.
+ */
+export
+class KeymapManager {
+  /**
+   * A signal emitted when the pending key sequence changes.
+   *
+   * **See also:** [[pendingChanged]]
+   */
+  static pendingChangedSignal = new Signal<KeymapManager, IPendingChangedArgs>();
+
+  /**
+   * A signal emitted when the current mode changes.
+   *
+   * **See also:** [[modeChanged]]
+   */
+  static modeChangedSignal = new Signal<KeymapManager, IModeChangedArgs>();
+
+  /**
+   * Construct a new key map.
+   *
+   * @param options - The options for initializing the key map.
+   */
+  constructor(options: IKeymapManagerOptions = {}) {
+    if (options.platform !== void 0) {
+      this._platform = options.platform;
+    } else {
+      this._platform = detectPlatform();
+    }
+    if (options.timeout !== void 0) {
+      this._timeout = options.timeout;
+    }
+    if (options.holdTime !== void 0) {
+      this._holdTime = options.holdTime;
+    }
+    if (options.chordWindow !== void 0) {
+      this._chordWindow = options.chordWindow;
+    }
+    if (options.replayPolicy !== void 0) {
+      this._replayPolicy = options.replayPolicy;
+    }
+    this._replayHandler = options.replayHandler || null;
+    this._logger = options.logger || console;
+    this._commands = options.commands || null;
+    this._context = options.context || new ContextKeyService();
+    this._errorHandler = options.errorHandler || null;
+  }
+
+  /**
+   * Get the platform used by the key map.
+   *
+   * #### Notes
+   * The platform determines how the `'accel'` modifier of a key
+   * binding sequence is resolved.
+   *
+   * This is a read-only property.
+   */
+  get platform(): Platform {
+    return this._platform;
+  }
+
+  /**
+   * Get the default partial match timeout of the key map.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get timeout(): number {
+    return this._timeout;
+  }
+
+  /**
+   * Get the time a key must be held to trigger `Hold` bindings.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get holdTime(): number {
+    return this._holdTime;
+  }
+
+  /**
+   * Get the time to wait for the second key of a chord.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get chordWindow(): number {
+    return this._chordWindow;
+  }
+
+  /**
+   * Get the command registry used by the key map.
+   *
+   * #### Notes
+   * This is `null` if the key map does not have a command registry.
+   *
+   * This is a read-only property.
+   */
+  get commands(): CommandRegistry {
+    return this._commands;
+  }
+
+  /**
+   * Get the context key service used by the key map.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get context(): ContextKeyService {
+    return this._context;
+  }
+
+  /**
+   * Get the key bindings registered with the key map.
+   *
+   * #### Notes
+   * The entries are in priority order: highest layer first, then
+   * highest selector specificity, with ties broken by newer bindings
+   * first. This is the order in which bindings which match the same
+   * element are tried.
+   *
+   * This is a read-only property which returns a new array.
+   */
+  get bindings(): IBindingEntry[] {
+    return this._index.sorted.map(exb => exb.toEntry());
+  }
+
+  /**
+   * A signal emitted when the pending key sequence changes.
+   *
+   * #### Notes
+   * This is emitted when a keystroke extends the pending sequence,
+   * and when the pending sequence is completed, fails, times out,
+   * or is cancelled.
+   *
+   * This is a pure delegate to the [[pendingChangedSignal]].
+   */
+  get pendingChanged(): ISignal<KeymapManager, IPendingChangedArgs> {
+    return KeymapManager.pendingChangedSignal.bind(this);
+  }
+
+  /**
+   * A signal emitted when the current mode changes.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[modeChangedSignal]].
+   */
+  get modeChanged(): ISignal<KeymapManager, IModeChangedArgs> {
+    return KeymapManager.modeChangedSignal.bind(this);
+  }
+
+  /**
+   * Get the current mode of the key map.
+   *
+   * #### Notes
+   * This is the mode at the top of the mode stack, or an empty string
+   * if the mode stack is empty.
+   *
+   * This is a read-only property.
+   */
+  get mode(): string {
+    var modes = this._modes;
+    return modes.length > 0 ? modes[modes.length - 1] : '';
+  }
+
+  /**
+   * Get the mode stack of the key map.
+   *
+   * #### Notes
+   * The current mode is the last mode in the array.
+   *
+   * This is a read-only property which returns a new array.
+   */
+  get modes(): string[] {
+    return this._modes.slice();
+  }
+
+  /**
+   * Push a mode onto the mode stack, making it the current mode.
+   *
+   * @param mode - The name of the mode to push.
+   *
+   * @throws An error if the mode name is empty.
+   *
+   * #### Notes
+   * If the current mode changes, the pending key sequence, if any,
+   * is cancelled and the [[modeChanged]] signal is emitted.
+   */
+  pushMode(mode: string): void {
+    if (!mode) {
+      throw new Error('Mode name cannot be empty');
+    }
+    var oldMode = this.mode;
+    this._modes.push(mode);
+    this._onModeChanged(oldMode);
+  }
+
+  /**
+   * Pop the current mode from the mode stack.
+   *
+   * @returns The mode which was popped, or an empty string if the
+   *   mode stack is empty.
+   *
+   * #### Notes
+   * If the current mode changes, the pending key sequence, if any,
+   * is cancelled and the [[modeChanged]] signal is emitted.
+   */
+  popMode(): string {
+    if (this._modes.length === 0) {
+      return '';
+    }
+    var oldMode = this.mode;
+    this._modes.pop();
+    this._onModeChanged(oldMode);
+    return oldMode;
+  }
+
+  /**
+   * Get the normalized keystrokes of the pending key sequence.
+   *
+   * #### Notes
+   * This will be an empty array if no key sequence is pending.
+   *
+   * This is a read-only property which returns a new array.
+   */
+  get pendingKeystrokes(): string[] {
+    var keystrokes = this._keystrokes.map(ks => ks.keystroke);
+    return this._countKeystrokes.concat(keystrokes);
+  }
+
+  /**
+   * Test whether any asynchronous binding is in flight.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isBusy(): boolean {
+    return this._index.sorted.some(exb => exb.isBusy);
+  }
+
+  /**
+   * Get the key bindings which are in flight.
+   *
+   * #### Notes
+   * A binding is in flight while a promise returned by its handler
+   * or command has not settled.
+   *
+   * This is a read-only property which returns a new array.
+   */
+  get busyBindings(): IKeyBinding[] {
+    return this._index.sorted.filter(exb => exb.isBusy).map(exb => exb.toBinding());
+  }
+
+  /**
+   * Get the keystrokes of the keys which are currently held down.
+   *
+   * #### Notes
+   * The keystrokes are in the order the keys were pressed. A key is
+   * held from its `'keydown'` event until its `'keyup'` event.
+   *
+   * This is a read-only property which returns a new array.
+   */
+  get heldKeys(): string[] {
+    return this._heldKeys.map(held => held.result.keystroke);
+  }
+
+  /**
+   * Get the pending count prefix.
+   *
+   * #### Notes
+   * This is `null` if no count prefix is pending.
+   *
+   * This is a read-only property.
+   */
+  get pendingCount(): number {
+    return this._count;
+  }
+
+  /**
+   * Test whether the keymap has a pending key sequence.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isPending(): boolean {
+    return this._keystrokes.length > 0 || this._countKeystrokes.length > 0;
+  }
+
+  /**
+   * Test whether the key map is suspended.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isSuspended(): boolean {
+    return this._suspendCount > 0;
+  }
+
+  /**
+   * Suspend the processing of `'keydown'` events.
+   *
+   * @returns A disposable which will resume the processing of events.
+   *
+   * #### Notes
+   * While the key map is suspended, [[processKeydownEvent]] ignores
+   * all events, so no bindings are invoked and no default actions
+   * are prevented. The pending key sequence, if any, is cancelled.
+   *
+   * Suspensions nest: the key map resumes once every disposable
+   * returned by this method has been disposed.
+   */
+  suspend(): IDisposable {
+    this.cancelPending();
+    this._suspendCount++;
+    return new DisposableDelegate(() => { this._suspendCount--; });
+  }
+
+  /**
+   * Cancel the pending key sequence.
+   *
+   * #### Notes
+   * The pending exact matches are not dispatched and the swallowed
+   * events are not replayed. A key deferred for a possible chord is
+   * also discarded.
+   *
+   * This is a no-op if no key sequence is pending.
+   */
+  cancelPending(): void {
+    this._clearChord();
+    if (!this.isPending) {
+      return;
+    }
+    var keystrokes = this.pendingKeystrokes;
+    this._clearPendingState();
+    this._emitPendingChanged(PendingChange.Cancelled, keystrokes);
+  }
+
+  /**
+   * Add key bindings to the key map.
+   *
+   * @param selector - The CSS selector for the key bindings.
+   *
+   * @param bindings - The key bindings to add to the key map.
+   *
+   * @param layer - The layer for the key bindings. The default is
+   *   the `Default` layer.
+   *
+   * @returns A disposable result which reports the accepted and
+   *   rejected bindings, and which will remove the accepted key
+   *   bindings when disposed.
+   *
+   * #### Notes
+   * If the selector is an invalid CSS selector, a warning will be
+   * logged and all of the bindings will be rejected.
+   *
+   * If the key sequence for a binding is invalid, if a binding has
+   * neither a handler, a command, nor an unbinding, if a binding has
+   * an invalid command, if a binding has a negative timeout, or if a
+   * binding has an invalid `when` clause, a warning will be logged
+   * and that binding will be rejected.
+   *
+   * Warnings are logged to the logger of the keymap.
+   */
+  add(selector: string, bindings: IKeyBinding[], layer = KeymapLayer.Default): IAddResult {
+    // The accepted and rejected bindings for the result.
+    var accepted: IKeyBinding[] = [];
+    var rejected: IRejectedBinding[] = [];
+
+    // The newly created ex bindings for the valid key bindings.
+    var newBindings: ExBinding[] = [];
+
+    // Create the result which will remove the new bindings.
+    var result = new AddResult(accepted, rejected, () => {
+      this._removeBindings(newBindings);
+    });
+
+    // Log a warning and reject all bindings if the selector is invalid.
+    if (!isSelectorValid(selector)) {
+      var message = `Invalid key binding selector: ${selector}`;
+      this._logger.warn(message);
+      for (var i = 0, n = bindings.length; i < n; ++i) {
+        rejected.push({
+          index: i, binding: bindings[i],
+          reason: RejectReason.InvalidSelector, message: message,
+        });
+      }
+      return result;
+    }
+
+    // Iterate over the bindings and covert them into ex bindings.
+    for (var i = 0, n = bindings.length; i < n; ++i) {
+      var binding = bindings[i];
+
+      // Validate the binding. If it is invalid, warn and continue.
+      var keystrokes = this._normalizeBinding(binding);
+      if (typeof keystrokes === 'number') {
+        var reason = keystrokes as RejectReason;
+        var message = rejectMessage(reason, binding);
+        this._logger.warn(message);
+        rejected.push({
+          index: i, binding: binding, reason: reason, message: message,
+        });
+        continue;
+      }
+
+      // Create a new extended binding and add it to the index.
+      var exb = new ExBinding(selector, keystrokes as string[], binding, layer, this._commands, this._context);
+      this._index.add(exb);
+      newBindings.push(exb);
+      accepted.push(exb.toBinding());
+    }
+
+    // Invalidate the cached selector matches for the new bindings.
+    if (newBindings.length > 0) {
+      this._selectorCache.clear();
+    }
+
+    // Return the result for the new bindings.
+    return result;
+  }
+
+  /**
+   * Enable count prefixes for the elements matching a selector.
+   *
+   * @param selector - The CSS selector for the elements.
+   *
+   * @param options - The options for the count prefix.
+   *
+   * @returns A disposable which will disable the count prefix.
+   *
+   * @throws An error if the selector or the universal argument
+   *   keystroke is invalid.
+   *
+   * #### Notes
+   * Count prefixes are only recognized when the target of the event
+   * or one of its ancestors matches the selector. Elsewhere, digit
+   * keys and the universal argument keystroke are processed normally.
+   *
+   * If several count prefixes match, the one for the nearest element
+   * is used, then the one with the highest selector specificity, then
+   * the most recently added.
+   */
+  addCountPrefix(selector: string, options: ICountPrefixOptions = {}): IDisposable {
+    if (!isSelectorValid(selector)) {
+      throw new Error(`Invalid count prefix selector: ${selector}`);
+    }
+    var universal = '';
+    if (options.universal) {
+      universal = normalizeKeystroke(options.universal, this._platform);
+    }
+    var prefix: ICountPrefix = {
+      selector: selector,
+      specificity: calculateSpecificity(selector),
+      digits: options.digits !== false,
+      universal: universal,
+    };
+    this._countPrefixes.push(prefix);
+    return new DisposableDelegate(() => {
+      var index = this._countPrefixes.indexOf(prefix);
+      if (index !== -1) this._countPrefixes.splice(index, 1);
+    });
+  }
+
+  /**
+   * Find the key bindings which could complete a key sequence.
+   *
+   * @param sequence - The prefix key sequence of interest. An empty
+   *   sequence matches the first keystroke of every binding.
+   *
+   * @param target - The element at which the bindings are evaluated.
+   *
+   * @returns A new array of the key bindings which require one or
+   *   more additional keystrokes to complete the sequence, and whose
+   *   selector matches the target or one of its ancestors.
+   *
+   * @throws An error if the sequence is invalid.
+   *
+   * #### Notes
+   * The bindings are ordered as they would be dispatched: by layer,
+   * then by their nearest matching element, then by selector
+   * specificity, then with newer bindings first. Unbindings, and the
+   * bindings whose sequence is unbound at the target, are not
+   * included. The sequence of the returned bindings is the normalized
+   * sequence, so the next possible keystroke of a binding can be
+   * computed by splitting it on whitespace.
+   *
+   * This can be used to display the possible continuations of the
+   * [[pendingKeystrokes]] for the focused element.
+   */
+  findCompletions(sequence: string, target: Element): IKeyBinding[] {
+    var keystrokes = normalizeSequence(sequence, this._platform);
+    var prefix = keystrokes.map(ks => ({
+      keystroke: ks, physical: ks, key: '', resolution: KeyResolution.None
+    }));
+    var cache = this._selectorCache;
+    var partial = findSequenceMatches(this._index, prefix, this.mode, target, null, cache).partial;
+    var matches = findDispatchOrder(partial, target, null, cache);
+    var result: ExBinding[] = [];
     for (var i = 0, n = matches.length; i < n; ++i) {
-      if (matches[i].invoke()) {
+      var exb = matches[i].binding;
+      if (result.indexOf(exb) === -1) result.push(exb);
+    }
+    return result.map(exb => exb.toBinding());
+  }
+
+  /**
+   * Find the key bindings which are effective at an element.
+   *
+   * @param target - The element at which the bindings are evaluated.
+   *
+   * @returns A new array of the key bindings whose selector matches
+   *   the target or one of its ancestors, and which are not shadowed
+   *   by another binding for the same key sequence.
+   *
+   * #### Notes
+   * The bindings are ordered as they would be dispatched: by layer,
+   * then by their nearest matching element, then by selector
+   * specificity, then with newer bindings first. A binding is
+   * shadowed if a binding or an unbinding with the same sequence
+   * appears earlier in that order. Unbindings are not included.
+   *
+   * Only the bindings which are active in the current mode, and whose
+   * `when` clause is satisfied, are considered. The enabled state of
+   * command bindings is not, so the result is stable as the state of
+   * the commands changes.
+   */
+  findBindingsAt(target: Element): IKeyBinding[] {
+    return this._effectiveBindings(target).map(exb => exb.toBinding());
+  }
+
+  /**
+   * Find the key sequences which trigger an action.
+   *
+   * @param action - The command id or handler function of interest.
+   *
+   * @param target - The element at which the bindings are evaluated.
+   *   If this is not provided, every binding for the action is used,
+   *   regardless of its selector.
+   *
+   * @returns A new array of the unique normalized key sequences for
+   *   the action, in the order of their bindings.
+   *
+   * #### Notes
+   * When a target is provided, only the bindings returned by
+   * [[findBindingsAt]] for the target are considered, so bindings
+   * which do not apply or which are shadowed at the target are
+   * excluded.
+   *
+   * Otherwise, the bindings are ordered by priority. Only the bindings
+   * which are active in the current mode, and whose `when` clause is
+   * satisfied, are considered. A binding is excluded if a binding or
+   * an unbinding with the same sequence takes precedence wherever
+   * the binding applies: one with the same selector, or one in a
+   * higher layer whose selector matches the document body or root.
+   */
+  findShortcuts(action: string | KeyBindingHandler, target?: Element): string[] {
+    var bindings: ExBinding[];
+    if (target) {
+      bindings = this._effectiveBindings(target);
+    } else {
+      bindings = this._index.sorted.filter(exb => {
+        return exb.isForAction(action) && !this._isShadowed(exb);
+      });
+    }
+    var result: string[] = [];
+    for (var i = 0, n = bindings.length; i < n; ++i) {
+      var exb = bindings[i];
+      if (exb.isForAction(action) && result.indexOf(exb.sequence) === -1) {
+        result.push(exb.sequence);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Compute the user layer bindings which differ from the lower layers.
+   *
+   * @returns A new array of the user layer entries, in priority order,
+   *   which customize the default and extension layers.
+   *
+   * #### Notes
+   * A user binding is omitted if a lower layer has an equivalent
+   * binding with the same selector. A user unbinding is omitted if
+   * no lower layer has a binding for the same sequence.
+   *
+   * This can be used to persist only the customizations of the user,
+   * so that later changes to the defaults are not masked.
+   */
+  diffUserLayer(): IBindingEntry[] {
+    var sorted = this._index.sorted;
+    var user = sorted.filter(exb => exb.layer === KeymapLayer.User);
+    var lower = sorted.filter(exb => exb.layer !== KeymapLayer.User);
+    var result = user.filter(exb => {
+      if (exb.isUnbind) {
+        return lower.some(other => other.sequence === exb.sequence);
+      }
+      return !lower.some(other => other.isEquivalent(exb));
+    });
+    return result.map(exb => exb.toEntry());
+  }
+
+  /**
+   * Process a `'keydown'` event and invoke the matching key bindings.
+   *
+   * @param event - The event object for a `'keydown'` event.
+   *
+   * #### Notes
+   * This should be called by user code in response to a `'keydown'`
+   * event. The keymap **does not** install its own event listeners,
+   * which allows user code full control over the nodes for which
+   * the keymap processes events.
+   *
+   * The default action of an event which partially matches a key
+   * sequence is prevented. If the sequence later fails to match,
+   * the swallowed events are handled according to the replay policy
+   * of the keymap, and the failing event is processed as the start
+   * of a new key sequence. The swallowed events are also replayed if
+   * no binding handles the completed sequence. Pressing `Escape`
+   * cancels the pending key sequence, unless it continues the
+   * sequence.
+   *
+   * A count prefix is recognized before a key sequence for targets
+   * with an enabled count prefix. See [[addCountPrefix]].
+   *
+   * A key which may be the first key of a chord is swallowed for the
+   * chord window of the keymap. If the second key of the chord is not
+   * pressed in time, or the first key is released, the key is then
+   * processed on its own, and replayed if it does not match.
+   *
+   * The pressed key is held until the matching [[processKeyupEvent]].
+   * While it is held, `Hold` bindings for the key are triggered after
+   * the hold time of the keymap.
+   *
+   * Events are ignored while the keymap is [[suspend]]ed.
+   */
+  processKeydownEvent(event: KeyboardEvent): void {
+    // Ignore the event if the key map is suspended.
+    if (this._suspendCount > 0) {
+      return;
+    }
+
+    // Resolve the normalized keystroke for the event.
+    var result = resolveKeydownEvent(event);
+
+    // If the actual pressed key is a modifier key, prevent the default
+    // and return. A lone modifier keystroke is matched on release, so
+    // the modifier is only recorded as a lone modifier candidate.
+    if (isModifierKey(result.key)) {
+      event.preventDefault();
+      this._pressModifier(result.key, event);
+      return;
+    }
+
+    // Any other key prevents the lone modifier from matching.
+    this._loneModifier = '';
+
+    // If the key could not be resolved, no binding can be matched.
+    // Release the pending state so the next key press starts fresh.
+    if (!result.keystroke) {
+      this._releasePendingState(PendingChange.Failed);
+      return;
+    }
+
+    // Track the key as held, which starts the timer for hold bindings.
+    this._holdKey(result, event);
+
+    // Process the keystroke as part of a key sequence.
+    this._processKeystroke(result, event);
+  }
+
+  /**
+   * Process a `'keyup'` event and invoke the matching release bindings.
+   *
+   * @param event - The event object for a `'keyup'` event.
+   *
+   * #### Notes
+   * This should be called by user code in response to a `'keyup'`
+   * event, for the same nodes as [[processKeydownEvent]].
+   *
+   * When a held key is released, the release handlers paired with
+   * the bindings it triggered are invoked, and then the `Release`
+   * bindings for the key are dispatched. A key which is not held is
+   * ignored.
+   *
+   * When a modifier key is released without any other key having
+   * been pressed since it was pressed, the lone modifier keystroke
+   * is processed like a pressed keystroke, which may complete or
+   * extend a key sequence such as `'shift shift'`.
+   *
+   * Events are ignored while the keymap is [[suspend]]ed.
+   */
+  processKeyupEvent(event: KeyboardEvent): void {
+    // Ignore the event if the key map is suspended.
+    if (this._suspendCount > 0) {
+      return;
+    }
+
+    // Process the lone modifier keystroke for a released modifier.
+    var result = resolveKeydownEvent(event);
+    if (isModifierKey(result.key)) {
+      var modifier = loneModifierName(result.key);
+      var isLone = this._loneModifier === modifier;
+      this._loneModifier = '';
+      if (isLone) {
+        this._processKeystroke({
+          keystroke: modifier, physical: '', key: modifier,
+          resolution: result.resolution,
+        }, event);
+      }
+      return;
+    }
+
+    // Process a key deferred for a chord on its own if it is released.
+    var chord = this._chord;
+    if (chord && chord.id === heldKeyId(event)) {
+      this._clearChord();
+      this._flushChord(chord);
+    }
+
+    // Find the held key for the event.
+    var index = findHeldKey(this._heldKeys, event);
+    if (index === -1) {
+      return;
+    }
+
+    // Release the key and invoke its paired release handlers.
+    var held = this._heldKeys.splice(index, 1)[0];
+    this._releaseHeldKey(held, event);
+
+    // Dispatch the release bindings for the key as it was pressed.
+    this._dispatchTrigger(KeyTrigger.Release, held.result, [event]);
+  }
+
+  /**
+   * Release all keys which are currently held down.
+   *
+   * #### Notes
+   * The paired release handlers of the held keys are invoked with
+   * the last `'keydown'` event of the key, since no `'keyup'` event
+   * is available. `Release` bindings are not dispatched.
+   *
+   * The browser does not deliver a `'keyup'` event for a key which
+   * is released while the document does not have focus, so this
+   * should be called when the window loses focus.
+   */
+  releaseHeldKeys(): void {
+    var heldKeys = this._heldKeys;
+    this._heldKeys = [];
+    this._loneModifier = '';
+    heldKeys.forEach(held => { this._releaseHeldKey(held, null); });
+  }
+
+  /**
+   * Process a resolved keystroke as part of a key sequence.
+   *
+   * The event is the `'keydown'` event of the keystroke, or the
+   * `'keyup'` event of a lone modifier keystroke. If `chordable` is
+   * `false`, the keystroke is never deferred for a chord.
+   *
+   * Returns `true` if the event was consumed, `false` otherwise.
+   */
+  private _processKeystroke(result: IKeystrokeResult, event: KeyboardEvent, chordable = true): boolean {
+    // Complete a pending chord with the keystroke, or process the
+    // deferred key of the chord on its own.
+    var chord = this._chord;
+    if (chord) {
+      this._clearChord();
+      var combined = this._combineChord(chord, result, event);
+      if (combined) {
+        this._swallowed.push(chord.event);
+        return this._processKeystroke(combined, event, false);
+      }
+      this._flushChord(chord);
+    }
+
+    // Accumulate the count prefix if the keystroke is part of it.
+    if (this._keystrokes.length === 0 && this._processCountKeystroke(result, event)) {
+      return true;
+    }
+
+    // Store the keystroke result as a pending keystroke.
+    this._keystrokes.push(result);
+
+    // Find the exact and partial matches for the pending keystrokes.
+    var matches = this._findMatches(this._keystrokes, event);
+
+    // If the keystroke may be the first key of a chord for the target,
+    // defer it until the second key is pressed or the window expires.
+    if (chordable && this._isChordTarget(matches.chord, event)) {
+      this._keystrokes.pop();
+      this._startChord(result, event);
+      return true;
+    }
+
+    // If there are no exact match and not partial matches, release
+    // all pending state so the next key press starts from default.
+    // If the event broke a pending sequence, it is reprocessed as
+    // the first keystroke of a new sequence. A lone modifier which
+    // does not match is ignored, so it never breaks a sequence.
+    if (matches.exact.length === 0 && matches.partial.length === 0) {
+      if (isLoneModifier(result.keystroke)) {
+        this._keystrokes.pop();
+        return false;
+      }
+      var wasPending = this._keystrokes.length > 1;
+      if (wasPending && result.keystroke === 'esc') {
+        this._keystrokes.pop();
+        this.cancelPending();
         event.preventDefault();
-        event.stopPropagation();
+        return true;
+      }
+      this._releasePendingState(PendingChange.Failed);
+      return wasPending ? this._processKeystroke(result, event, chordable) : false;
+    }
+
+    // If there are exact matches but no partial matches, the exact
+    // matches can be dispatched immediately. The pending state is
+    // reset so the next key press starts from default. If no binding
+    // consumes the sequence, the swallowed events are replayed.
+    if (matches.partial.length === 0) {
+      var keystrokes = this.pendingKeystrokes;
+      var events = this._swallowed.concat([event]);
+      var count = this._count;
+      this._clearPendingState();
+      var handled = this._dispatch(matches.exact, events, count);
+      if (!handled) {
+        this._replayEvents(events.slice(0, -1));
+      }
+      if (keystrokes.length > 1) {
+        this._emitPendingChanged(PendingChange.Completed, keystrokes);
+      }
+      return handled;
+    }
+
+    // At this point, there are partial matches.
+
+    // If there are exact matches and partial matches, the exact
+    // matches are stored so they can be dispatched if the timer
+    // expires before a more specific match is found.
+    if (matches.exact.length > 0) {
+      this._setExactData(matches.exact, this._swallowed.concat([event]));
+    }
+
+    // Swallow the event so it can be replayed if the match fails,
+    // and restart the timer for equal intervals between keystrokes.
+    event.preventDefault();
+    this._swallowed.push(event);
+    this._startTimer(this._partialTimeout(matches.partial));
+    this._emitPendingChanged(PendingChange.Extended, this.pendingKeystrokes);
+    return true;
+  }
+
+  /**
+   * Find the sequence matches for pending keystrokes of an event.
+   */
+  private _findMatches(keystrokes: IKeystrokeResult[], event: KeyboardEvent): IMatchResult {
+    var target = event.target as Element;
+    var current = event.currentTarget as Element;
+    return findSequenceMatches(this._index, keystrokes, this.mode, target, current, this._selectorCache);
+  }
+
+  /**
+   * Test whether a chord binding may match at the target of an event.
+   *
+   * A key is only deferred for chords which apply to its target, so a
+   * chord bound for one element does not delay typing elsewhere.
+   */
+  private _isChordTarget(bindings: ExBinding[], event: KeyboardEvent): boolean {
+    if (bindings.length === 0) {
+      return false;
+    }
+    var target = event.target as Element;
+    var current = event.currentTarget as Element;
+    return findDispatchOrder(bindings, target, current, this._selectorCache).length > 0;
+  }
+
+  /**
+   * Defer a keystroke which may be the first key of a chord.
+   */
+  private _startChord(result: IKeystrokeResult, event: KeyboardEvent): void {
+    event.preventDefault();
+    var chord: IChordKey = { id: heldKeyId(event), result: result, event: event, timer: 0 };
+    chord.timer = setTimeout(() => {
+      if (this._chord !== chord) {
+        return;
+      }
+      this._chord = null;
+      this._flushChord(chord);
+    }, this._chordWindow);
+    this._chord = chord;
+  }
+
+  /**
+   * Combine a deferred chord key with the next keystroke.
+   *
+   * Returns the chord keystroke result, or `null` if the keystroke
+   * does not complete a chord binding.
+   */
+  private _combineChord(chord: IChordKey, result: IKeystrokeResult, event: KeyboardEvent): IKeystrokeResult {
+    if (event.type !== 'keydown' || event.repeat || heldKeyId(event) === chord.id) {
+      return null;
+    }
+    var combined = chordKeystroke(chord.result, result);
+    var keystrokes = this._keystrokes.concat([combined]);
+    var matches = this._findMatches(keystrokes, event);
+    if (matches.exact.length === 0 && matches.partial.length === 0) {
+      return null;
+    }
+    return combined;
+  }
+
+  /**
+   * Process a deferred chord key on its own.
+   *
+   * The default action of the key was prevented when it was deferred,
+   * so a key which is not consumed is always re-delivered, whatever
+   * the replay policy.
+   */
+  private _flushChord(chord: IChordKey): void {
+    if (this._processKeystroke(chord.result, chord.event, false)) {
+      return;
+    }
+    if (this._replayPolicy === ReplayPolicy.Callback) {
+      this._replayEvents([chord.event]);
+    } else {
+      synthesizeInput(chord.event);
+    }
+  }
+
+  /**
+   * Clear the deferred chord key, if any, without processing it.
+   */
+  private _clearChord(): void {
+    if (this._chord) {
+      clearTimeout(this._chord.timer);
+      this._chord = null;
+    }
+  }
+
+  /**
+   * Validate a key binding and normalize its keystrokes.
+   *
+   * Returns the normalized keystrokes, or the reason the binding
+   * is invalid.
+   */
+  private _normalizeBinding(binding: IKeyBinding): string[] | RejectReason {
+    if (!binding.handler && !binding.command && !binding.unbind) {
+      return RejectReason.NullHandler;
+    }
+    if (binding.unbind && (binding.handler || binding.command)) {
+      return RejectReason.InvalidCommand;
+    }
+    if (binding.command && (binding.handler || !this._commands)) {
+      return RejectReason.InvalidCommand;
+    }
+    try {
+      var keystrokes = normalizeSequence(binding.sequence, this._platform);
+    } catch (e) {
+      return RejectReason.InvalidSequence;
+    }
+    if (keystrokes.length === 0) {
+      return RejectReason.InvalidSequence;
+    }
+    if (binding.timeout !== void 0 && !(binding.timeout >= 0)) {
+      return RejectReason.InvalidTimeout;
+    }
+    if (binding.when !== void 0) {
+      try {
+        parseWhenClause(binding.when);
+      } catch (e) {
+        return RejectReason.InvalidWhen;
+      }
+    }
+    var trigger = binding.trigger || KeyTrigger.Press;
+    if (trigger !== KeyTrigger.Press && keystrokes.length !== 1) {
+      return RejectReason.InvalidTrigger;
+    }
+    if (trigger === KeyTrigger.Release && binding.releaseHandler) {
+      return RejectReason.InvalidTrigger;
+    }
+    if (trigger !== KeyTrigger.Press && (isLoneModifier(keystrokes[0]) || isChord(keystrokes[0]))) {
+      return RejectReason.InvalidTrigger;
+    }
+    return keystrokes;
+  }
+
+  /**
+   * Compute the effective ex bindings at an element.
+   *
+   * The result is in dispatch order, with shadowed bindings removed.
+   */
+  private _effectiveBindings(target: Element): ExBinding[] {
+    var result: ExBinding[] = [];
+    var sequences: { [sequence: string]: boolean } = Object.create(null);
+    var mode = this.mode;
+    var active = this._index.sorted.filter(exb => exb.isModeMatch(mode));
+    var matches = findDispatchOrder(active, target, null, this._selectorCache);
+    for (var i = 0, n = matches.length; i < n; ++i) {
+      var exb = matches[i].binding;
+      var key = `${exb.trigger}:${exb.sequence}`;
+      if (!(key in sequences)) {
+        sequences[key] = true;
+        if (!exb.isUnbind) result.push(exb);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Test whether a binding is shadowed wherever it applies.
+   *
+   * A binding which is inactive in the current mode, or whose `when`
+   * clause is not satisfied, is always shadowed. Otherwise, it is
+   * shadowed if an active binding or unbinding for the same sequence
+   * and trigger takes precedence, and has the same selector or is in
+   * a higher layer with a selector which matches the document body
+   * or root, so it is dispatched first at every target.
+   */
+  private _isShadowed(exb: ExBinding): boolean {
+    var mode = this.mode;
+    var active = (other: ExBinding) => other.isModeMatch(mode) && other.isWhenMatch();
+    if (!active(exb)) {
+      return true;
+    }
+    var bindings = this._index.lookup(exb.keystrokes);
+    for (var i = 0, n = bindings.length; i < n && bindings[i] !== exb; ++i) {
+      var other = bindings[i];
+      if (other.trigger !== exb.trigger || !active(other)) {
+        continue;
+      }
+      if (other.selector === exb.selector) {
+        return true;
+      }
+      if (other.layer > exb.layer && isDocumentSelector(other.selector)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Remove an array of ex key bindings from the key map.
+   */
+  private _removeBindings(arr: ExBinding[]): void {
+    arr.forEach(exb => { this._index.remove(exb); });
+    this._selectorCache.clear();
+  }
+
+  /**
+   * Compute the timeout for a set of partial match bindings.
+   *
+   * This is the longest effective timeout of the bindings.
+   */
+  private _partialTimeout(partial: ExBinding[]): number {
+    var timeout = 0;
+    for (var i = 0, n = partial.length; i < n; ++i) {
+      var t = partial[i].timeout;
+      timeout = Math.max(timeout, t !== void 0 ? t : this._timeout);
+    }
+    return timeout;
+  }
+
+  /**
+   * Start or restart the pending timer for the key map.
+   *
+   * A non-finite timeout clears the timer without restarting it.
+   */
+  private _startTimer(timeout: number): void {
+    this._clearTimer();
+    if (!isFinite(timeout)) {
+      return;
+    }
+    this._timer = setTimeout(() => {
+      this._onPendingTimeout();
+    }, timeout);
+  }
+
+  /**
+   * Clear the pending timer for the key map.
+   */
+  private _clearTimer(): void {
+    if (this._timer !== 0) {
+      clearTimeout(this._timer);
+      this._timer = 0;
+    }
+  }
+
+  /**
+   * Clear the pending state for the keymap.
+   */
+  private _clearPendingState(): void {
+    this._clearTimer();
+    this._exactData = null;
+    this._count = null;
+    this._countUniversal = false;
+    this._countKeystrokes.length = 0;
+    this._keystrokes.length = 0;
+    this._swallowed.length = 0;
+  }
+
+  /**
+   * Find the count prefix which applies to an element.
+   *
+   * Returns `null` if count prefixes are not enabled for the element.
+   */
+  private _findCountPrefix(target: Element): ICountPrefix {
+    while (target) {
+      var best: ICountPrefix = null;
+      for (var i = 0, n = this._countPrefixes.length; i < n; ++i) {
+        var prefix = this._countPrefixes[i];
+        if (best && prefix.specificity < best.specificity) {
+          continue;
+        }
+        if (matchesSelector(target, prefix.selector)) {
+          best = prefix;
+        }
+      }
+      if (best) {
+        return best;
+      }
+      target = target.parentElement;
+    }
+    return null;
+  }
+
+  /**
+   * Process a keystroke which may be part of a count prefix.
+   *
+   * Returns `true` if the keystroke was consumed by the count prefix.
+   */
+  private _processCountKeystroke(result: IKeystrokeResult, event: KeyboardEvent): boolean {
+    var prefix = this._findCountPrefix(event.target as Element);
+    if (!prefix) {
+      return false;
+    }
+    var keystroke = result.keystroke;
+    var typed = this._countKeystrokes.some(ks => /^\d$/.test(ks));
+    if (keystroke === 'esc' && this._countKeystrokes.length > 0) {
+      event.preventDefault();
+      this.cancelPending();
+      return true;
+    }
+    if (prefix.universal && keystroke === prefix.universal) {
+      if (typed) {
+        return false;
+      }
+      this._count = this._countUniversal ? this._count * 4 : 4;
+      this._countUniversal = true;
+    } else if (/^\d$/.test(keystroke) && (prefix.digits || this._countUniversal)) {
+      var digit = parseInt(keystroke, 10);
+      if (!typed && digit === 0 && !this._countUniversal) {
+        return false;
+      }
+      this._count = typed ? this._count * 10 + digit : digit;
+    } else {
+      return false;
+    }
+    event.preventDefault();
+    this._countKeystrokes.push(keystroke);
+    this._swallowed.push(event);
+    this._emitPendingChanged(PendingChange.Extended, this.pendingKeystrokes);
+    return true;
+  }
+
+  /**
+   * Release the pending state for a sequence which failed to match.
+   *
+   * This will dispatch the pending exact matches, if any, and replay
+   * the swallowed events which were not consumed by those matches.
+   * If a sequence was pending, the given change is emitted.
+   */
+  private _releasePendingState(change: PendingChange): void {
+    var data = this._exactData;
+    var events = this._swallowed.slice();
+    var wasPending = events.length > 0;
+    var keystrokes = this.pendingKeystrokes;
+    var count = this._count;
+    this._clearPendingState();
+    if (data && this._dispatch(data.exact, data.events, count)) {
+      events = events.slice(data.events.length);
+    }
+    this._replayEvents(events);
+    if (wasPending) {
+      this._emitPendingChanged(change, keystrokes);
+    }
+  }
+
+  /**
+   * Handle a potential change of the current mode.
+   *
+   * This cancels the pending sequence and emits the mode changed
+   * signal if the current mode differs from the old mode.
+   */
+  private _onModeChanged(oldMode: string): void {
+    var newMode = this.mode;
+    if (newMode === oldMode) {
+      return;
+    }
+    this.cancelPending();
+    this.modeChanged.emit({ oldMode: oldMode, newMode: newMode });
+  }
+
+  /**
+   * Update the lone modifier candidate for a pressed modifier key.
+   *
+   * A modifier is a candidate if no other modifier is held when it
+   * is pressed. Pressing another modifier clears the candidate.
+   */
+  private _pressModifier(key: string, event: KeyboardEvent): void {
+    if (event.repeat) {
+      return;
+    }
+    var modifier = loneModifierName(key);
+    var others = (
+      (event.ctrlKey && modifier !== 'ctrl') ||
+      (event.altKey && modifier !== 'alt') ||
+      (event.shiftKey && modifier !== 'shift') ||
+      (event.metaKey && modifier !== 'cmd')
+    );
+    this._loneModifier = others ? '' : modifier;
+  }
+
+  /**
+   * Dispatch the matched bindings for the given key events.
+   *
+   * Returns `true` if a binding handled the event, `false` otherwise.
+   */
+  private _dispatch(bindings: ExBinding[], events: KeyboardEvent[], count: number): boolean {
+    return dispatchBindings(bindings, events, this, count, this._selectorCache, {
+      track: (binding, promise) => { this._trackResult(binding, promise); },
+      handled: match => { this._pairRelease(match, events); },
+    });
+  }
+
+  /**
+   * Dispatch the bindings with a trigger for a single keystroke.
+   */
+  private _dispatchTrigger(trigger: KeyTrigger, result: IKeystrokeResult, events: KeyboardEvent[]): void {
+    var mode = this.mode;
+    var bindings = this._index.match([result], trigger).exact.filter(exb => {
+      return exb.isModeMatch(mode) && exb.isEnabled();
+    });
+    if (bindings.length > 0) {
+      this._dispatch(bindings, events, null);
+    }
+  }
+
+  /**
+   * Track a pressed key as held, and start its hold timer if needed.
+   *
+   * This is a no-op for a key which is already held.
+   */
+  private _holdKey(result: IKeystrokeResult, event: KeyboardEvent): void {
+    if (findHeldKey(this._heldKeys, event) !== -1) {
+      return;
+    }
+    var held: IHeldKey = { id: heldKeyId(event), result: result, timer: 0, paired: [] };
+    this._heldKeys.push(held);
+    var mode = this.mode;
+    var hold = this._index.match([result], KeyTrigger.Hold).exact;
+    var hasHold = hold.some(exb => exb.isModeMatch(mode));
+    if (!hasHold) {
+      return;
+    }
+    held.timer = setTimeout(() => {
+      held.timer = 0;
+      this._dispatchTrigger(KeyTrigger.Hold, result, [event]);
+    }, this._holdTime);
+  }
+
+  /**
+   * Clear the hold timer of a released key and invoke its paired
+   * release handlers.
+   *
+   * If the `'keyup'` event is `null`, the handlers receive only the
+   * events of their invocation.
+   */
+  private _releaseHeldKey(held: IHeldKey, event: KeyboardEvent): void {
+    if (held.timer !== 0) {
+      clearTimeout(held.timer);
+      held.timer = 0;
+    }
+    held.paired.forEach(pair => {
+      var events = event ? pair.events.concat([event]) : pair.events;
+      pair.match.binding.invokeRelease(events, pair.match.target, this);
+    });
+  }
+
+  /**
+   * Pair the release handler of a binding with its held key.
+   *
+   * If the key was already released, the release handler is invoked
+   * immediately.
+   */
+  private _pairRelease(match: IBindingMatch, events: KeyboardEvent[]): void {
+    if (!match.binding.hasReleaseHandler) {
+      return;
+    }
+    var index = findHeldKey(this._heldKeys, events[events.length - 1]);
+    if (index === -1) {
+      match.binding.invokeRelease(events, match.target, this);
+    } else {
+      this._heldKeys[index].paired.push({ match: match, events: events });
+    }
+  }
+
+  /**
+   * Track the promise returned by an asynchronous binding.
+   *
+   * A rejection of the promise is reported to the error handler.
+   */
+  private _trackResult(binding: ExBinding, promise: PromiseLike<any>): void {
+    binding.track(promise).then(null, (error: any) => {
+      var entry = binding.toBinding();
+      if (this._errorHandler) {
+        this._errorHandler(error, entry);
+      } else {
+        this._logger.warn(`Key binding '${entry.sequence}' failed: ${error}`);
+      }
+    });
+  }
+
+  /**
+   * Emit the pending changed signal for the keymap.
+   */
+  private _emitPendingChanged(change: PendingChange, keystrokes: string[]): void {
+    this.pendingChanged.emit({ change: change, keystrokes: keystrokes });
+  }
+
+  /**
+   * Replay swallowed events according to the replay policy.
+   */
+  private _replayEvents(events: KeyboardEvent[]): void {
+    if (events.length === 0) {
+      return;
+    }
+    switch (this._replayPolicy) {
+    case ReplayPolicy.Callback:
+      if (this._replayHandler) this._replayHandler(events);
+      break;
+    case ReplayPolicy.Synthesize:
+      events.forEach(synthesizeInput);
+      break;
+    }
+  }
+
+  /**
+   * Set the pending exact match data.
+   */
+  private _setExactData(exact: ExBinding[], events: KeyboardEvent[]): void {
+    if (!this._exactData) {
+      this._exactData = { exact: exact, events: events };
+    } else {
+      this._exactData.exact = exact;
+      this._exactData.events = events;
+    }
+  }
+
+  /**
+   * Handle the partial timer timeout.
+   *
+   * This will release the pending state, which dispatches the exact
+   * matches and replays the unconsumed swallowed events.
+   */
+  private _onPendingTimeout(): void {
+    this._timer = 0;
+    this._releasePendingState(PendingChange.TimedOut);
+  }
+
+  private _timer = 0;
+  private _suspendCount = 0;
+  private _count: number = null;
+  private _countUniversal = false;
+  private _countKeystrokes: string[] = [];
+  private _countPrefixes: ICountPrefix[] = [];
+  private _modes: string[] = [];
+  private _platform: Platform;
+  private _timeout = 1000;
+  private _holdTime = 500;
+  private _heldKeys: IHeldKey[] = [];
+  private _loneModifier = '';
+  private _chordWindow = 50;
+  private _chord: IChordKey = null;
+  private _keystrokes: IKeystrokeResult[] = [];
+  private _index = new BindingIndex();
+  private _selectorCache = new SelectorCache();
+  private _exactData: IExactData = null;
+  private _swallowed: KeyboardEvent[] = [];
+  private _replayPolicy = ReplayPolicy.None;
+  private _replayHandler: (events: KeyboardEvent[]) => void;
+  private _logger: IKeymapLogger;
+  private _commands: CommandRegistry;
+  private _context: ContextKeyService;
+  private _errorHandler: (error: any, binding: IKeyBinding) => void;
+}
+
+
+/**
+ * A concrete implementation of `IAddResult`.
+ */
+class AddResult extends DisposableDelegate implements IAddResult {
+  /**
+   * Construct a new add result.
+   *
+   * @param accepted - The key bindings which were added.
+   *
+   * @param rejected - The key bindings which were rejected.
+   *
+   * @param callback - The callback which removes the bindings.
+   */
+  constructor(accepted: IKeyBinding[], rejected: IRejectedBinding[], callback: () => void) {
+    super(callback);
+    this.accepted = accepted;
+    this.rejected = rejected;
+  }
+
+  /**
+   * The key bindings which were added to the keymap.
+   */
+  accepted: IKeyBinding[];
+
+  /**
+   * The key bindings which were rejected by the keymap.
+   */
+  rejected: IRejectedBinding[];
+}
+
+
+/**
+ * An extended key bind object used by a keymap manager.
+ */
+class ExBinding {
+  /**
+   * A monotonically increasing binding identifier.
+   *
+   * The binding id is used to break sorting ties.
+   */
+  static idTick = 0;
+
+  /**
+   * A comparison function for extended bindings.
+   *
+   * This can be used to sort an array of bindings according to
+   * highest layer, then highest CSS specificity. Ties are broken
+   * according to the binding id, with newer bindings appearing first.
+   */
+  static compare(exA: ExBinding, exB: ExBinding): number {
+    if (exA._layer !== exB._layer) {
+      return exB._layer - exA._layer;
+    }
+    if (exA._specificity === exB._specificity) {
+      return exB._id - exA._id;
+    }
+    return exB._specificity - exA._specificity;
+  }
+
+  /**
+   * Construct a new extended key binding.
+   *
+   * @param selector - The valid CSS selector for the binding.
+   *
+   * @param keystrokes - The normalized keystrokes for the binding.
+   *
+   * @param binding - The validated key binding.
+   *
+   * @param layer - The layer of the binding.
+   *
+   * @param commands - The command registry for a command binding.
+   *
+   * @param context - The context key service for a `when` clause.
+   */
+  constructor(selector: string, keystrokes: string[], binding: IKeyBinding, layer: KeymapLayer, commands: CommandRegistry, context: ContextKeyService) {
+    this._selector = selector;
+    this._layer = layer;
+    this._unbind = !!binding.unbind;
+    this._mode = binding.mode || '';
+    this._when = binding.when !== void 0 ? parseWhenClause(binding.when) : null;
+    this._context = context;
+    this._keystrokes = keystrokes;
+    this._sequence = keystrokes.join(' ');
+    this._source = binding.sequence;
+    this._handler = binding.handler || null;
+    this._command = binding.command || '';
+    this._args = binding.args;
+    this._commands = commands;
+    this._timeout = binding.timeout;
+    this._propagation = binding.propagation || PropagationPolicy.Stop;
+    this._exclusive = !!binding.exclusive;
+    this._trigger = binding.trigger || KeyTrigger.Press;
+    this._releaseHandler = binding.releaseHandler || null;
+    this._specificity = calculateSpecificity(selector);
+  }
+
+  /**
+   * The normalized key sequence of the binding.
+   */
+  get sequence(): string {
+    return this._sequence;
+  }
+
+  /**
+   * The normalized keystrokes of the binding.
+   *
+   * This is a read-only property which returns a new array.
+   */
+  get keystrokes(): string[] {
+    return this._keystrokes.slice();
+  }
+
+  /**
+   * The CSS selector of the binding.
+   */
+  get selector(): string {
+    return this._selector;
+  }
+
+  /**
+   * The layer of the binding.
+   */
+  get layer(): KeymapLayer {
+    return this._layer;
+  }
+
+  /**
+   * Whether the binding is an unbinding of its sequence.
+   */
+  get isUnbind(): boolean {
+    return this._unbind;
+  }
+
+  /**
+   * The partial match timeout override of the binding.
+   *
+   * This is `undefined` if the binding uses the keymap timeout.
+   */
+  get timeout(): number {
+    return this._timeout;
+  }
+
+  /**
+   * Create a public key binding object for this extended binding.
+   */
+  toBinding(): IKeyBinding {
+    var binding: IKeyBinding = { sequence: this._sequence };
+    if (this._handler) binding.handler = this._handler;
+    if (this._command) binding.command = this._command;
+    if (this._args !== void 0) binding.args = this._args;
+    if (this._timeout !== void 0) binding.timeout = this._timeout;
+    if (this._unbind) binding.unbind = true;
+    if (this._mode) binding.mode = this._mode;
+    if (this._when) binding.when = this._when.source;
+    if (this._propagation !== PropagationPolicy.Stop) binding.propagation = this._propagation;
+    if (this._exclusive) binding.exclusive = true;
+    if (this._trigger !== KeyTrigger.Press) binding.trigger = this._trigger;
+    if (this._releaseHandler) binding.releaseHandler = this._releaseHandler;
+    return binding;
+  }
+
+  /**
+   * Create a public binding entry object for this extended binding.
+   */
+  toEntry(): IBindingEntry {
+    return {
+      selector: this._selector, layer: this._layer,
+      binding: this.toBinding(), sequence: this._source,
+    };
+  }
+
+  /**
+   * Test whether another binding has the same selector and behavior.
+   *
+   * The layers of the bindings are not compared.
+   */
+  isEquivalent(other: ExBinding): boolean {
+    return (
+      this._selector === other._selector &&
+      this._sequence === other._sequence &&
+      this._mode === other._mode &&
+      this.whenSource === other.whenSource &&
+      this._unbind === other._unbind &&
+      this._handler === other._handler &&
+      this._command === other._command &&
+      this._timeout === other._timeout &&
+      this._propagation === other._propagation &&
+      this._exclusive === other._exclusive &&
+      this._trigger === other._trigger &&
+      this._releaseHandler === other._releaseHandler &&
+      JSON.stringify(this._args) === JSON.stringify(other._args)
+    );
+  }
+
+  /**
+   * Test whether the binding triggers the given action.
+   *
+   * The action is either a command id or a handler function.
+   */
+  isForAction(action: string | KeyBindingHandler): boolean {
+    if (typeof action === 'string') {
+      return this._command !== '' && this._command === action;
+    }
+    return this._handler !== null && this._handler === action;
+  }
+
+  /**
+   * Test whether the binding is enabled.
+   *
+   * A handler binding or an unbinding is always enabled. A command
+   * binding is only enabled if its command is registered and enabled.
+   */
+  isEnabled(): boolean {
+    if (!this._command) {
+      return true;
+    }
+    return this._commands.isEnabled(this._command, this._args);
+  }
+
+  /**
+   * The kind of key event which triggers the binding.
+   */
+  get trigger(): KeyTrigger {
+    return this._trigger;
+  }
+
+  /**
+   * Whether the binding has a paired release handler.
+   */
+  get hasReleaseHandler(): boolean {
+    return this._releaseHandler !== null;
+  }
+
+  /**
+   * The propagation policy for an asynchronous result.
+   */
+  get propagation(): PropagationPolicy {
+    return this._propagation;
+  }
+
+  /**
+   * Whether the binding has an invocation in flight.
+   */
+  get isBusy(): boolean {
+    return this._inFlight > 0;
+  }
+
+  /**
+   * Whether the binding is blocked from re-entry.
+   *
+   * An exclusive binding is blocked while it is in flight.
+   */
+  get isBlocked(): boolean {
+    return this._exclusive && this._inFlight > 0;
+  }
+
+  /**
+   * Track a promise returned by an invocation of the binding.
+   *
+   * Returns a promise which settles like the given promise, after
+   * the binding is no longer considered in flight.
+   */
+  track(promise: PromiseLike<any>): PromiseLike<any> {
+    this._inFlight++;
+    return promise.then((value: any) => {
+      this._inFlight--;
+      return value;
+    }, (error: any) => {
+      this._inFlight--;
+      throw error;
+    });
+  }
+
+  /**
+   * The source of the `when` clause, or an empty string.
+   */
+  get whenSource(): string {
+    return this._when ? this._when.source : '';
+  }
+
+  /**
+   * Test whether the `when` clause of the binding is satisfied.
+   *
+   * A binding without a `when` clause is always satisfied.
+   */
+  isWhenMatch(): boolean {
+    return !this._when || this._when.evaluate(this._context);
+  }
+
+  /**
+   * Test whether the binding is active in the given current mode.
+   *
+   * A binding without a mode is active in every mode.
+   */
+  isModeMatch(mode: string): boolean {
+    return !this._mode || this._mode === mode;
+  }
+
+  /**
+   * Invoke the handler for the binding and return its result.
+   *
+   * The result is `false` if the binding did not handle the event,
+   * or a promise if the handler or command is asynchronous.
+   *
+   * @param events - The events for the keystrokes of the sequence.
+   *
+   * @param target - The element which matched the binding selector.
+   *
+   * @param manager - The keymap manager which owns the binding.
+   *
+   * @param count - The count prefix, or `null` if there is none.
+   *
+   * #### Notes
+   * For a command binding, a count prefix is passed to the command
+   * as the `count` property of a copy of its args, when the args are
+   * an object or `undefined`.
+   */
+  invoke(events: KeyboardEvent[], target: Element, manager: KeymapManager, count: number): boolean | PromiseLike<any> {
+    if (this._command) {
+      if (!this.isEnabled()) {
+        return false;
+      }
+      var result = this._commands.execute(this._command, argsWithCount(this._args, count));
+      return isPromiseLike(result) ? result : true;
+    }
+    return this._handler.call(void 0, {
+      event: events[events.length - 1],
+      events: events.slice(),
+      target: target,
+      sequence: this._sequence,
+      selector: this._selector,
+      manager: manager,
+      count: count,
+    });
+  }
+
+  /**
+   * Invoke the paired release handler for the binding.
+   *
+   * @param events - The events of the invocation, followed by the
+   *   `'keyup'` event if there is one.
+   *
+   * @param target - The element which matched the binding selector.
+   *
+   * @param manager - The keymap manager which owns the binding.
+   */
+  invokeRelease(events: KeyboardEvent[], target: Element, manager: KeymapManager): void {
+    this._releaseHandler.call(void 0, {
+      event: events[events.length - 1],
+      events: events.slice(),
+      target: target,
+      sequence: this._sequence,
+      selector: this._selector,
+      manager: manager,
+      count: null,
+    });
+  }
+
+  private _sequence: string;
+  private _source: string;
+  private _keystrokes: string[];
+  private _selector: string;
+  private _layer: KeymapLayer;
+  private _unbind: boolean;
+  private _mode: string;
+  private _when: IWhenClause;
+  private _context: ContextKeyService;
+  private _specificity: number;
+  private _timeout: number;
+  private _handler: KeyBindingHandler;
+  private _command: string;
+  private _args: any;
+  private _commands: CommandRegistry;
+  private _propagation: PropagationPolicy;
+  private _exclusive: boolean;
+  private _trigger: KeyTrigger;
+  private _releaseHandler: (context: IKeyHandlerContext) => void;
+  private _inFlight = 0;
+  private _id = ExBinding.idTick++;
+}
+
+
+/**
+ * An index of extended bindings for fast key sequence lookup.
+ *
+ * The bindings are stored in a trie keyed by normalized keystroke,
+ * so the cost of a lookup depends on the number of bindings which
+ * share the pending keystrokes rather than the size of the key map.
+ *
+ * The bindings of each node are kept in priority order as they are
+ * inserted, so the matches of a lookup are merged rather than sorted.
+ */
+class BindingIndex {
+  /**
+   * The bindings of the index in priority order.
+   *
+   * #### Notes
+   * This is the order produced by [[ExBinding.compare]]. It is
+   * computed lazily and invalidated when a binding is added or
+   * removed.
+   *
+   * This is a read-only property which returns a new array.
+   */
+  get sorted(): ExBinding[] {
+    if (!this._sorted) {
+      this._sorted = collectBindings([this._root]);
+    }
+    return this._sorted.slice();
+  }
+
+  /**
+   * Add a binding to the index.
+   */
+  add(exb: ExBinding): void {
+    var node = this._root;
+    var keystrokes = exb.keystrokes;
+    for (var i = 0, n = keystrokes.length; i < n; ++i) {
+      var ks = keystrokes[i];
+      var child = node.children[ks];
+      if (!child) {
+        child = node.children[ks] = createTrieNode();
+        if (isChord(ks)) node.chords.push(ks);
+      }
+      node = child;
+    }
+    var bindings = node.bindings;
+    var index = 0;
+    while (index < bindings.length && ExBinding.compare(bindings[index], exb) < 0) {
+      ++index;
+    }
+    bindings.splice(index, 0, exb);
+    this._sorted = null;
+  }
+
+  /**
+   * Remove a binding from the index.
+   *
+   * Nodes which are left without bindings are pruned from the trie.
+   */
+  remove(exb: ExBinding): void {
+    var path = [this._root];
+    var keystrokes = exb.keystrokes;
+    for (var i = 0, n = keystrokes.length; i < n; ++i) {
+      var child = path[i].children[keystrokes[i]];
+      if (!child) {
         return;
       }
+      path.push(child);
+    }
+    var node = path[path.length - 1];
+    var index = node.bindings.indexOf(exb);
+    if (index === -1) {
+      return;
+    }
+    node.bindings.splice(index, 1);
+    for (var j = keystrokes.length; j > 0; --j) {
+      var pruned = path[j];
+      if (pruned.bindings.length > 0 || Object.keys(pruned.children).length > 0) {
+        break;
+      }
+      var parent = path[j - 1];
+      var ks = keystrokes[j - 1];
+      delete parent.children[ks];
+      if (isChord(ks)) parent.chords.splice(parent.chords.indexOf(ks), 1);
+    }
+    this._sorted = null;
+  }
+
+  /**
+   * Find the bindings for a sequence of normalized keystrokes.
+   *
+   * Returns a new array of the bindings, including unbindings, whose
+   * sequence is exactly the given keystrokes, in priority order.
+   */
+  lookup(keystrokes: string[]): ExBinding[] {
+    var node = this._root;
+    for (var i = 0, n = keystrokes.length; i < n && node; ++i) {
+      node = node.children[keystrokes[i]];
+    }
+    return node ? node.bindings.slice() : [];
+  }
+
+  /**
+   * Find the bindings with a trigger which match pending keystrokes.
+   *
+   * A binding keystroke matches a pending keystroke if it is equal to
+   * either the logical or the physical form of the pending keystroke.
+   *
+   * An unbinding is never a partial or chord match. The bindings of
+   * each group are returned in priority order.
+   */
+  match(keystrokes: IKeystrokeResult[], trigger: KeyTrigger): IMatchResult {
+    // Find the nodes which match all but the last keystroke.
+    var nodes = [this._root];
+    var last = keystrokes.length - 1;
+    for (var i = 0; i < last && nodes.length > 0; ++i) {
+      nodes = stepTrieNodes(nodes, keystrokes[i]);
+    }
+
+    // A binding with a chord containing the last key may be a chord
+    // match, unless the chord is the last keystroke itself.
+    var chordNodes: ITrieNode[] = [];
+    if (last >= 0) {
+      var result = keystrokes[last];
+      nodes.forEach(node => {
+        node.chords.forEach(ks => {
+          if (ks !== result.keystroke && ks !== result.physical && chordHasKey(ks, result)) {
+            chordNodes.push(node.children[ks]);
+          }
+        });
+      });
+      nodes = stepTrieNodes(nodes, result);
+    }
+
+    // Bindings ending at a matched node are exact matches, and the
+    // bindings below it are partial matches.
+    var exact = mergeBindings(nodes.map(node => node.bindings));
+    var children: ITrieNode[] = [];
+    nodes.forEach(node => {
+      for (var ks in node.children) {
+        children.push(node.children[ks]);
+      }
+    });
+
+    // Filter the groups for the trigger, preserving priority order.
+    var forTrigger = (exb: ExBinding) => exb.trigger === trigger;
+    var chordable = (exb: ExBinding) => forTrigger(exb) && !exb.isUnbind;
+    return {
+      exact: exact.filter(forTrigger),
+      partial: collectBindings(children).filter(chordable),
+      chord: collectBindings(chordNodes).filter(chordable),
+    };
+  }
+
+  private _root = createTrieNode();
+  private _sorted: ExBinding[] = null;
+}
+
+
+/**
+ * A cache of the selector matches of elements.
+ *
+ * #### Notes
+ * The cache is cleared when the bindings of the keymap change. While
+ * the cache holds entries, the DOM is observed, and a mutation only
+ * invalidates the entries of the elements it may affect: those under
+ * the parent of the mutated node, which covers descendant and sibling
+ * combinators, and those under a removed node. Pending mutation
+ * records are taken before every lookup, so a mutation made
+ * synchronously before a key event is processed is never missed.
+ * Without `MutationObserver` support, the cache is cleared before
+ * every lookup.
+ *
+ * Selectors with pseudo-classes, such as `:focus`, may change without
+ * a DOM mutation, so they are never cached.
+ */
+class SelectorCache {
+  /**
+   * Test whether an element matches a selector, using the cache.
+   */
+  matches(elem: Element, selector: string): boolean {
+    if (selector.indexOf(':') !== -1) {
+      return matchesSelector(elem, selector);
+    }
+    var index = this._elements.indexOf(elem);
+    if (index === -1) {
+      this._observe(elem);
+      index = this._elements.length;
+      this._elements.push(elem);
+      this._results.push(Object.create(null));
+    }
+    var results = this._results[index];
+    if (!(selector in results)) {
+      results[selector] = matchesSelector(elem, selector);
+    }
+    return results[selector];
+  }
+
+  /**
+   * Invalidate the entries affected by mutations since the last lookup.
+   *
+   * This should be called before each lookup.
+   */
+  sync(): void {
+    if (this._observer) {
+      this._invalidate(this._observer.takeRecords());
+    } else {
+      this.clear();
+    }
+  }
+
+  /**
+   * Clear the cache and stop observing the DOM.
+   */
+  clear(): void {
+    if (this._observer) {
+      this._observer.disconnect();
+      this._observer = null;
+    }
+    this._elements = [];
+    this._results = [];
+  }
+
+  /**
+   * Start observing the document of an element, if needed.
+   */
+  private _observe(elem: Element): void {
+    var ctor = mutationObserverCtor();
+    if (this._observer || !ctor) {
+      return;
+    }
+    this._observer = new ctor(records => { this._invalidate(records); });
+    this._observer.observe(elem.ownerDocument, {
+      attributes: true, childList: true, subtree: true,
+    });
+  }
+
+  /**
+   * Remove the entries of the elements affected by mutations.
+   *
+   * The DOM is no longer observed once the cache is empty.
+   */
+  private _invalidate(records: IMutationRecord[]): void {
+    var scopes: Node[] = [];
+    for (var i = 0, n = records.length; i < n; ++i) {
+      var record = records[i];
+      scopes.push(record.target.parentNode || record.target);
+      var removed = record.removedNodes;
+      for (var j = 0, m = removed ? removed.length : 0; j < m; ++j) {
+        scopes.push(removed[j]);
+      }
+    }
+    for (var k = this._elements.length - 1; k >= 0; --k) {
+      var elem = this._elements[k];
+      if (scopes.some(scope => scope.contains(elem))) {
+        this._elements.splice(k, 1);
+        this._results.splice(k, 1);
+      }
+    }
+    if (this._elements.length === 0) {
+      this.clear();
+    }
+  }
+
+  private _observer: IMutationObserver = null;
+  private _elements: Element[] = [];
+  private _results: { [selector: string]: boolean }[] = [];
+}
+
+
+/**
+ * The subset of a DOM mutation record used by the selector cache.
+ */
+interface IMutationRecord {
+  /**
+   * The node which was mutated.
+   */
+  target: Node;
+
+  /**
+   * The nodes which were removed from the target, if any.
+   */
+  removedNodes: NodeList;
+}
+
+
+/**
+ * The subset of a DOM mutation observer used by the selector cache.
+ */
+interface IMutationObserver {
+  /**
+   * Start observing mutations of a node.
+   */
+  observe(target: Node, options: MutationObserverInit): void;
+
+  /**
+   * Stop observing mutations.
+   */
+  disconnect(): void;
+
+  /**
+   * Take the pending mutation records.
+   */
+  takeRecords(): IMutationRecord[];
+}
+
+
+/**
+ * A constructor for a mutation observer.
+ */
+interface IMutationObserverCtor {
+  new (callback: (records: IMutationRecord[]) => void): IMutationObserver;
+}
+
+
+/**
+ * An object which holds the options of an enabled count prefix.
+ */
+interface ICountPrefix {
+  /**
+   * The CSS selector for the elements with count prefixes.
+   */
+  selector: string;
+
+  /**
+   * The specificity of the selector.
+   */
+  specificity: number;
+
+  /**
+   * Whether digit keys start a count prefix.
+   */
+  digits: boolean;
+
+  /**
+   * The normalized universal argument keystroke, or an empty string.
+   */
+  universal: string;
+}
+
+
+/**
+ * An object which holds a paired release handler of a held key.
+ */
+interface IPairedRelease {
+  /**
+   * The binding match which handled the press of the key.
+   */
+  match: IBindingMatch;
+
+  /**
+   * The events of the invocation of the binding.
+   */
+  events: KeyboardEvent[];
+}
+
+
+/**
+ * An object which holds the state of a held key.
+ */
+interface IHeldKey {
+  /**
+   * The id of the physical key, see `heldKeyId`.
+   */
+  id: string;
+
+  /**
+   * The keystroke result for the press of the key.
+   */
+  result: IKeystrokeResult;
+
+  /**
+   * The timer id for the hold bindings, or `0`.
+   */
+  timer: number;
+
+  /**
+   * The release handlers paired with the press of the key.
+   */
+  paired: IPairedRelease[];
+}
+
+
+/**
+ * An object which holds the callbacks for dispatching bindings.
+ */
+interface IDispatchHooks {
+  /**
+   * Track the promise returned by an asynchronous binding.
+   */
+  track(binding: ExBinding, promise: PromiseLike<any>): void;
+
+  /**
+   * Handle the binding match which handled the event.
+   *
+   * This is not invoked for a blocked exclusive binding.
+   */
+  handled(match: IBindingMatch): void;
+}
+
+
+/**
+ * An object which holds pending exact match data.
+ */
+interface IExactData {
+  /**
+   * The exact match bindings.
+   */
+  exact: ExBinding[];
+
+  /**
+   * The keyboard events for the keystrokes of the exact match.
+   */
+  events: KeyboardEvent[];
+}
+
+
+/**
+ * An object which holds the results of a sequence match.
+ */
+interface IMatchResult {
+  /**
+   * The bindings which exactly match the key sequence.
+   */
+  exact: ExBinding[];
+
+  /**
+   * The bindings which partially match the key sequence.
+   */
+  partial: ExBinding[];
+
+  /**
+   * The bindings for which the last keystroke may start a chord.
+   */
+  chord: ExBinding[];
+}
+
+
+/**
+ * An object which holds a key deferred for a possible chord.
+ */
+interface IChordKey {
+  /**
+   * The id of the physical key, see `heldKeyId`.
+   */
+  id: string;
+
+  /**
+   * The keystroke result for the press of the key.
+   */
+  result: IKeystrokeResult;
+
+  /**
+   * The swallowed `'keydown'` event of the key.
+   */
+  event: KeyboardEvent;
+
+  /**
+   * The timer id for the chord window.
+   */
+  timer: number;
+}
+
+
+/**
+ * Create the warning message for a rejected key binding.
+ */
+function rejectMessage(reason: RejectReason, binding: IKeyBinding): string {
+  switch (reason) {
+  case RejectReason.NullHandler:
+    return `null handler for key binding: ${binding.sequence}`;
+  case RejectReason.InvalidCommand:
+    return `invalid command for key binding: ${binding.sequence}`;
+  case RejectReason.InvalidSequence:
+    return `invalid key binding sequence: ${binding.sequence}`;
+  case RejectReason.InvalidTimeout:
+    return `invalid key binding timeout: ${binding.sequence}`;
+  case RejectReason.InvalidWhen:
+    return `invalid key binding when clause: ${binding.sequence}`;
+  case RejectReason.InvalidTrigger:
+    return `invalid key binding trigger: ${binding.sequence}`;
+  }
+  return `invalid key binding: ${binding.sequence}`;
+}
+
+
+/**
+ * Normalize a whitespace separated key sequence.
+ *
+ * Returns the normalized keystrokes of the sequence, or an empty
+ * array if the sequence is empty.
+ *
+ * Throws an error if any of the keystrokes are invalid.
+ */
+function normalizeSequence(sequence: string, platform: Platform): string[] {
+  var trimmed = sequence.trim();
+  if (!trimmed) {
+    return [];
+  }
+  return trimmed.split(/\s+/).map(ks => normalizeKeystroke(ks, platform));
+}
+
+
+/**
+ * A node in the keystroke trie of a binding index.
+ */
+interface ITrieNode {
+  /**
+   * The child nodes, keyed by normalized keystroke.
+   */
+  children: { [keystroke: string]: ITrieNode };
+
+  /**
+   * The chord keystrokes of the child nodes.
+   */
+  chords: string[];
+
+  /**
+   * The bindings whose sequence ends at the node.
+   */
+  bindings: ExBinding[];
+}
+
+
+/**
+ * Create an empty keystroke trie node.
+ */
+function createTrieNode(): ITrieNode {
+  return { children: Object.create(null), chords: [], bindings: [] };
+}
+
+
+/**
+ * Find the child nodes which match a pending keystroke.
+ *
+ * A node has a child for each of the logical and physical forms of
+ * the keystroke, if a binding uses that form.
+ */
+function stepTrieNodes(nodes: ITrieNode[], result: IKeystrokeResult): ITrieNode[] {
+  var next: ITrieNode[] = [];
+  for (var i = 0, n = nodes.length; i < n; ++i) {
+    var children = nodes[i].children;
+    if (result.keystroke in children) {
+      next.push(children[result.keystroke]);
+    }
+    if (result.physical && result.physical !== result.keystroke && result.physical in children) {
+      next.push(children[result.physical]);
+    }
+  }
+  return next;
+}
+
+
+/**
+ * Collect the bindings of trie nodes and their descendants.
+ *
+ * Returns a new array of the bindings in priority order.
+ */
+function collectBindings(nodes: ITrieNode[]): ExBinding[] {
+  var lists: ExBinding[][] = [];
+  var stack = nodes.slice();
+  while (stack.length > 0) {
+    var node = stack.pop();
+    if (node.bindings.length > 0) lists.push(node.bindings);
+    for (var ks in node.children) {
+      stack.push(node.children[ks]);
+    }
+  }
+  return mergeBindings(lists);
+}
+
+
+/**
+ * Merge arrays of bindings which are each in priority order.
+ *
+ * Returns a new array of the bindings in priority order. The arrays
+ * are merged in pairs, so the cost grows with the logarithm of the
+ * number of arrays.
+ */
+function mergeBindings(lists: ExBinding[][]): ExBinding[] {
+  if (lists.length === 0) {
+    return [];
+  }
+  while (lists.length > 1) {
+    var merged: ExBinding[][] = [];
+    for (var i = 0, n = lists.length; i < n; i += 2) {
+      merged.push(i + 1 < n ? mergeTwo(lists[i], lists[i + 1]) : lists[i]);
+    }
+    lists = merged;
+  }
+  return lists[0].slice();
+}
+
+
+/**
+ * Merge two arrays of bindings which are each in priority order.
+ */
+function mergeTwo(a: ExBinding[], b: ExBinding[]): ExBinding[] {
+  var result: ExBinding[] = [];
+  var i = 0;
+  var j = 0;
+  while (i < a.length && j < b.length) {
+    result.push(ExBinding.compare(a[i], b[j]) <= 0 ? a[i++] : b[j++]);
+  }
+  while (i < a.length) result.push(a[i++]);
+  while (j < b.length) result.push(b[j++]);
+  return result;
+}
+
+
+/**
+ * Find the bindings in an index which match the pending keystrokes.
+ *
+ * Only `Press` bindings are matched. Bindings which are disabled or
+ * inactive in the current mode are excluded. The result contains
+ * both exact and partial matches. An unbinding is never a partial
+ * match, so it cannot cause keystrokes to be swallowed.
+ *
+ * A partial or chord match is also excluded if its full sequence is
+ * unbound at the target, so the keystrokes of an unbound sequence
+ * are never swallowed. See `isUnboundAt`.
+ */
+function findSequenceMatches(index: BindingIndex, keystrokes: IKeystrokeResult[], mode: string, target: Element, root: Element, cache: SelectorCache): IMatchResult {
+  var matches = index.match(keystrokes, KeyTrigger.Press);
+  var active = (exb: ExBinding) => exb.isModeMatch(mode) && exb.isEnabled();
+  var bound = (exb: ExBinding) => {
+    return active(exb) && !isUnboundAt(index, exb, mode, target, root, cache);
+  };
+  return {
+    exact: matches.exact.filter(active),
+    partial: matches.partial.filter(bound),
+    chord: matches.chord.filter(bound),
+  };
+}
+
+
+/**
+ * Test whether the sequence of a binding is unbound at a target.
+ *
+ * The sequence is unbound if an unbinding for the sequence which is
+ * active in the mode is reached before the binding in dispatch order,
+ * so the dispatch of the full sequence would stop without invoking
+ * the binding.
+ */
+function isUnboundAt(index: BindingIndex, exb: ExBinding, mode: string, target: Element, root: Element, cache: SelectorCache): boolean {
+  var bindings = index.lookup(exb.keystrokes).filter(other => {
+    return other.trigger === exb.trigger && other.isModeMatch(mode);
+  });
+  if (!bindings.some(other => other.isUnbind)) {
+    return false;
+  }
+  var matches = findDispatchOrder(bindings, target, root, cache);
+  for (var i = 0, n = matches.length; i < n; ++i) {
+    if (matches[i].binding === exb) {
+      return false;
+    }
+    if (matches[i].binding.isUnbind) {
+      return true;
+    }
+  }
+  return false;
+}
+
+
+/**
+ * An object which holds a binding and the element which matched it.
+ */
+interface IBindingMatch {
+  /**
+   * The binding which matched the element.
+   */
+  binding: ExBinding;
+
+  /**
+   * The element which matched the selector of the binding.
+   */
+  target: Element;
+}
+
+
+/**
+ * Find the bindings which match a target, in dispatch order.
+ *
+ * The bindings must be in the priority order of `ExBinding.compare`.
+ *
+ * For each layer, from highest to lowest, the DOM is walked from the
+ * target up to the given root element (or the document root if that
+ * is `null`), and the bindings which match each element are added in
+ * specificity order. A binding may appear once for each element it
+ * matches. A binding whose `when` clause is not satisfied does not
+ * match.
+ *
+ * The selector matches of the elements are looked up in the given
+ * cache, so a selector shared by many bindings is matched once per
+ * element until the cache is invalidated.
+ */
+function findDispatchOrder(bindings: ExBinding[], target: Element, root: Element, cache: SelectorCache): IBindingMatch[] {
+  var result: IBindingMatch[] = [];
+  var active = bindings.filter(exb => exb.isWhenMatch());
+  if (active.length === 0) {
+    return result;
+  }
+  cache.sync();
+  var path: Element[] = [];
+  for (var elem = target; elem; elem = elem.parentElement) {
+    path.push(elem);
+    if (elem === root) {
+      break;
+    }
+  }
+  var start = 0;
+  while (start < active.length) {
+    var end = start + 1;
+    while (end < active.length && active[end].layer === active[start].layer) {
+      ++end;
+    }
+    for (var j = 0, m = path.length; j < m; ++j) {
+      for (var i = start; i < end; ++i) {
+        if (cache.matches(path[j], active[i].selector)) {
+          result.push({ binding: active[i], target: path[j] });
+        }
+      }
     }
-    if (target === current) {
-      return;
+    start = end;
+  }
+  return result;
+}
+
+
+/**
+ * Dispatch the key bindings for the given keyboard events.
+ *
+ * The last event is the event which completed the key sequence.
+ *
+ * The bindings are invoked in dispatch order, from the event target
+ * up to the current target of the event. If the handler for a binding
+ * returns `true`, dispatch will terminate and the event propagation
+ * will be stopped. If an unbinding is reached, dispatch will terminate
+ * without handling the event, so the event falls through.
+ *
+ * If a binding returns a promise, the promise is passed to the track
+ * hook and the propagation policy of the binding is applied. A
+ * blocked exclusive binding is not invoked, but its policy applies.
+ *
+ * Returns `true` if a binding handled the event, `false` otherwise.
+ */
+function dispatchBindings(bindings: ExBinding[], events: KeyboardEvent[], manager: KeymapManager, count: number, cache: SelectorCache, hooks: IDispatchHooks): boolean {
+  var event = events[events.length - 1];
+  var target = event.target as Element;
+  var current = event.currentTarget as Element;
+  var matches = findDispatchOrder(bindings, target, current, cache);
+  for (var i = 0, n = matches.length; i < n; ++i) {
+    var match = matches[i];
+    if (match.binding.isUnbind) {
+      return false;
+    }
+    var handled: boolean;
+    if (match.binding.isBlocked) {
+      handled = match.binding.propagation === PropagationPolicy.Stop;
+    } else {
+      var result = match.binding.invoke(events, match.target, manager, count);
+      if (isPromiseLike(result)) {
+        hooks.track(match.binding, result as PromiseLike<any>);
+        handled = match.binding.propagation === PropagationPolicy.Stop;
+      } else {
+        handled = !!result;
+      }
+      if (handled) hooks.handled(match);
+    }
+    if (handled) {
+      event.preventDefault();
+      event.stopPropagation();
+      return true;
+    }
+  }
+  return false;
+}
+
+
+/**
+ * Get the lone modifier keystroke for a normalized modifier key.
+ */
+function loneModifierName(key: string): string {
+  return key === 'meta' ? 'cmd' : key;
+}
+
+
+/**
+ * Split a normalized keystroke into its modifier prefix and keys.
+ *
+ * A chord keystroke has two keys, any other keystroke has one.
+ */
+function splitChord(keystroke: string): { prefix: string, keys: string[] } {
+  var tokens = keystroke.split('+');
+  var index = 0;
+  while (index < tokens.length - 1 && isLoneModifier(tokens[index])) {
+    index++;
+  }
+  var prefix = tokens.slice(0, index).map(mod => mod + '+').join('');
+  return { prefix: prefix, keys: tokens.slice(index) };
+}
+
+
+/**
+ * Test whether a normalized keystroke is a chord.
+ */
+function isChord(keystroke: string): boolean {
+  return splitChord(keystroke).keys.length > 1;
+}
+
+
+/**
+ * Test whether a chord keystroke contains the key of a keystroke.
+ *
+ * The modifiers of the keystroke must equal those of the chord.
+ */
+function chordHasKey(chord: string, result: IKeystrokeResult): boolean {
+  var parts = splitChord(chord);
+  if (parts.keys.length < 2) {
+    return false;
+  }
+  var logical = splitChord(result.keystroke);
+  if (logical.prefix === parts.prefix && parts.keys.indexOf(logical.keys[0]) !== -1) {
+    return true;
+  }
+  var physical = splitChord(result.physical);
+  return physical.prefix === parts.prefix && parts.keys.indexOf(physical.keys[0]) !== -1;
+}
+
+
+/**
+ * Create the chord keystroke result for two pressed keys.
+ *
+ * The modifiers of the second keystroke are used for the chord, and
+ * the keys are sorted to match the canonical chord keystroke.
+ */
+function chordKeystroke(first: IKeystrokeResult, second: IKeystrokeResult): IKeystrokeResult {
+  var a = splitChord(first.keystroke);
+  var b = splitChord(second.keystroke);
+  var keys = [a.keys[0], b.keys[0]].sort();
+  var physical = '';
+  if (first.physical && second.physical) {
+    var pa = splitChord(first.physical);
+    var pb = splitChord(second.physical);
+    physical = pb.prefix + [pa.keys[0], pb.keys[0]].sort().join('+');
+  }
+  return {
+    keystroke: b.prefix + keys.join('+'), physical: physical,
+    key: keys.join('+'), resolution: second.resolution,
+  };
+}
+
+
+/**
+ * Test whether a normalized keystroke is a lone modifier.
+ */
+function isLoneModifier(keystroke: string): boolean {
+  switch (keystroke) {
+  case 'alt':
+  case 'cmd':
+  case 'ctrl':
+  case 'shift':
+    return true;
+  }
+  return false;
+}
+
+
+/**
+ * Get the id of the physical key of a keyboard event.
+ *
+ * The code of the key is used if it is available, since the key
+ * value of a `'keyup'` event may differ from its `'keydown'` event
+ * when a modifier is released first.
+ */
+function heldKeyId(event: KeyboardEvent): string {
+  var code: string = (event as any).code;
+  if (code) {
+    return code;
+  }
+  if (event.keyCode) {
+    return `#${event.keyCode}`;
+  }
+  return (event.key || '').toLowerCase();
+}
+
+
+/**
+ * Find the index of the held key for a keyboard event.
+ *
+ * Returns `-1` if the key is not held.
+ */
+function findHeldKey(heldKeys: IHeldKey[], event: KeyboardEvent): number {
+  var id = heldKeyId(event);
+  for (var i = 0, n = heldKeys.length; i < n; ++i) {
+    if (heldKeys[i].id === id) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+
+/**
+ * Test whether a value is a promise-like object.
+ */
+function isPromiseLike(value: any): boolean {
+  return !!value && typeof value.then === 'function';
+}
+
+
+/**
+ * Add a count prefix to the args of a command.
+ *
+ * The args are returned unmodified if there is no count, or if the
+ * args are not an object.
+ */
+function argsWithCount(args: any, count: number): any {
+  if (count === null) {
+    return args;
+  }
+  if (args === void 0) {
+    return { count: count };
+  }
+  if (!args || typeof args !== 'object' || Array.isArray(args)) {
+    return args;
+  }
+  var result: any = { count: count };
+  for (var key in args) {
+    if (key !== 'count') result[key] = args[key];
+  }
+  return result;
+}
+
+
+/**
+ * Synthesize the text input for a swallowed `'keydown'` event.
+ *
+ * The input is only synthesized for a printable character which is
+ * not combined with a command modifier, and only when the event
+ * target is an editable text control or content editable element.
+ *
+ * Some input types, such as `email`, do not support the selection
+ * APIs. For those, the text is appended to the end of the value and
+ * the caret is left to the browser.
+ */
+function synthesizeInput(event: KeyboardEvent): void {
+  var text = event.key;
+  if (!text || text.length !== 1) {
+    return;
+  }
+  if (event.ctrlKey || event.altKey || event.metaKey) {
+    return;
+  }
+  var target = event.target as HTMLElement;
+  if (isTextControl(target)) {
+    var control = target as HTMLInputElement;
+    var value = control.value;
+    var start = control.selectionStart;
+    if (start === null || start === void 0) {
+      control.value = value + text;
+    } else {
+      var end = control.selectionEnd;
+      control.value = value.slice(0, start) + text + value.slice(end);
+      control.selectionStart = control.selectionEnd = start + text.length;
     }
-    target = target.parentElement;
+    var input = document.createEvent('Event');
+    input.initEvent('input', true, false);
+    control.dispatchEvent(input);
+  } else if (target && target.isContentEditable) {
+    target.ownerDocument.execCommand('insertText', false, text);
+  }
+}
+
+
+/**
+ * Test whether an element is an editable text control.
+ */
+function isTextControl(elem: HTMLElement): boolean {
+  if (!elem) {
+    return false;
+  }
+  var control = elem as HTMLInputElement;
+  if (control.disabled || control.readOnly) {
+    return false;
+  }
+  if (elem.tagName === 'TEXTAREA') {
+    return true;
   }
+  if (elem.tagName !== 'INPUT') {
+    return false;
+  }
+  switch (control.type) {
+  case 'text':
+  case 'search':
+  case 'url':
+  case 'tel':
+  case 'password':
+  case 'email':
+    return true;
+  }
+  return false;
 }
 
 
@@ -457,6 +3513,32 @@ function matchesSelector(elem: Element, selector: string): boolean {
 }
 
 
+/**
+ * Test whether a selector matches the document body or root.
+ *
+ * A binding with such a selector matches an ancestor of any target
+ * in the document.
+ */
+function isDocumentSelector(selector: string): boolean {
+  var body = document.body;
+  var root = document.documentElement;
+  return (
+    (!!body && matchesSelector(body, selector)) ||
+    (!!root && matchesSelector(root, selector))
+  );
+}
+
+
+/**
+ * Get the mutation observer constructor of the environment.
+ *
+ * Returns `null` if mutation observers are not supported.
+ */
+function mutationObserverCtor(): IMutationObserverCtor {
+  return typeof MutationObserver !== 'undefined' ? MutationObserver : null;
+}
+
+
 /**
  * A cross-browser CSS selector matching prototype function.
  *
@@ -0,0 +1,350 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import {
+  IDisposable
+} from 'phosphor-disposable';
+
+import {
+  ISignal, Signal, clearSignalData
+} from 'phosphor-signaling';
+
+import {
+  isModifierKey, normalizeKeystroke, resolveKeydownEvent
+} from './keycodes';
+
+import {
+  KeymapManager
+} from './manager';
+
+
+/**
+ * An options object for initializing a keystroke recorder.
+ */
+export
+interface IRecorderOptions {
+  /**
+   * The key map to suspend while recording.
+   *
+   * If this is provided, the key map does not process events while
+   * the recorder is recording, so recorded keystrokes do not trigger
+   * existing bindings.
+   */
+  keymap?: KeymapManager;
+
+  /**
+   * The time to wait for the next keystroke, in milliseconds.
+   *
+   * Recording stops when no keystroke is pressed for this duration.
+   * The default is `1000`.
+   */
+  timeout?: number;
+
+  /**
+   * The maximum number of keystrokes to record.
+   *
+   * Recording stops as soon as this many keystrokes are recorded.
+   * The default is `2`.
+   */
+  maxKeystrokes?: number;
+}
+
+
+/**
+ * A class which records key sequences pressed by the user.
+ *
+ * #### Notes
+ * This is intended for shortcut customization interfaces, where the
+ * user presses the key sequence to assign to an action. The recorder
+ * listens for `'keydown'` events on its node while recording, and
+ * prevents the default action of those events.
+ *
+ * The recorded sequence is the canonical key sequence, which can be
+ * used directly as the sequence of a key binding.
+ */
+export
+class KeystrokeRecorder implements IDisposable {
+  /**
+   * A signal emitted when the recorded keystrokes change.
+   *
+   * **See also:** [[keystrokesChanged]]
+   */
+  static keystrokesChangedSignal = new Signal<KeystrokeRecorder, string[]>();
+
+  /**
+   * A signal emitted when a key sequence is recorded.
+   *
+   * **See also:** [[recorded]]
+   */
+  static recordedSignal = new Signal<KeystrokeRecorder, string>();
+
+  /**
+   * Construct a new keystroke recorder.
+   *
+   * @param node - The element which receives the keyboard events.
+   *
+   * @param options - The options for initializing the recorder.
+   */
+  constructor(node: HTMLElement, options: IRecorderOptions = {}) {
+    this._node = node;
+    this._keymap = options.keymap || null;
+    if (options.timeout !== void 0) {
+      this._timeout = options.timeout;
+    }
+    if (options.maxKeystrokes !== void 0) {
+      this._maxKeystrokes = options.maxKeystrokes;
+    }
+  }
+
+  /**
+   * Dispose of the resources held by the recorder.
+   *
+   * #### Notes
+   * Recording is cancelled if it is in progress.
+   */
+  dispose(): void {
+    if (this._node === null) {
+      return;
+    }
+    this.cancel();
+    this._node = null;
+    this._keymap = null;
+    clearSignalData(this);
+  }
+
+  /**
+   * Test whether the recorder is disposed.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isDisposed(): boolean {
+    return this._node === null;
+  }
+
+  /**
+   * A signal emitted when the recorded keystrokes change.
+   *
+   * #### Notes
+   * This is emitted for each recorded keystroke with the keystrokes
+   * recorded so far, so they can be displayed as they are pressed.
+   *
+   * This is a pure delegate to the [[keystrokesChangedSignal]].
+   */
+  get keystrokesChanged(): ISignal<KeystrokeRecorder, string[]> {
+    return KeystrokeRecorder.keystrokesChangedSignal.bind(this);
+  }
+
+  /**
+   * A signal emitted when a key sequence is recorded.
+   *
+   * #### Notes
+   * This is emitted with the canonical key sequence when recording
+   * stops with at least one recorded keystroke.
+   *
+   * This is a pure delegate to the [[recordedSignal]].
+   */
+  get recorded(): ISignal<KeystrokeRecorder, string> {
+    return KeystrokeRecorder.recordedSignal.bind(this);
+  }
+
+  /**
+   * Get the element which receives the keyboard events.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get node(): HTMLElement {
+    return this._node;
+  }
+
+  /**
+   * Test whether the recorder is recording.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isRecording(): boolean {
+    return this._recording;
+  }
+
+  /**
+   * Get the keystrokes of the current or last recording.
+   *
+   * #### Notes
+   * This is a read-only property which returns a new array.
+   */
+  get keystrokes(): string[] {
+    return this._keystrokes.slice();
+  }
+
+  /**
+   * Get the key sequence of the current or last recording.
+   *
+   * #### Notes
+   * This is an empty string if no keystrokes were recorded.
+   *
+   * This is a read-only property.
+   */
+  get sequence(): string {
+    return this._keystrokes.join(' ');
+  }
+
+  /**
+   * Start recording a new key sequence.
+   *
+   * #### Notes
+   * The keystrokes of the previous recording are cleared.
+   *
+   * This is a no-op if the recorder is recording or disposed.
+   */
+  start(): void {
+    if (this.isDisposed || this.isRecording) {
+      return;
+    }
+    this._keystrokes = [];
+    this._recording = true;
+    this._suspension = this._keymap ? this._keymap.suspend() : null;
+    this._node.addEventListener('keydown', this, true);
+  }
+
+  /**
+   * Stop recording and emit the recorded key sequence.
+   *
+   * #### Notes
+   * The [[recorded]] signal is not emitted if no keystrokes were
+   * recorded.
+   *
+   * This is a no-op if the recorder is not recording.
+   */
+  stop(): void {
+    if (!this.isRecording) {
+      return;
+    }
+    this._endRecording();
+    if (this._keystrokes.length > 0) {
+      this.recorded.emit(this.sequence);
+    }
+  }
+
+  /**
+   * Stop recording and discard the recorded keystrokes.
+   *
+   * #### Notes
+   * This is a no-op if the recorder is not recording.
+   */
+  cancel(): void {
+    if (!this.isRecording) {
+      return;
+    }
+    this._endRecording();
+    this._keystrokes = [];
+  }
+
+  /**
+   * Handle the DOM events for the recorder.
+   *
+   * @param event - The DOM event sent to the recorder.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the recorder's DOM node. It
+   * should not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    switch (event.type) {
+    case 'keydown':
+      this._evtKeydown(event as KeyboardEvent);
+      break;
+    }
+  }
+
+  /**
+   * Handle the `'keydown'` event for the recorder.
+   */
+  private _evtKeydown(event: KeyboardEvent): void {
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Ignore bare modifiers and keys which cannot be bound.
+    var result = resolveKeydownEvent(event);
+    if (isModifierKey(result.key) || !isValidKeystroke(result.keystroke)) {
+      return;
+    }
+
+    // Record the keystroke and stop if the maximum is reached.
+    this._keystrokes.push(result.keystroke);
+    this.keystrokesChanged.emit(this.keystrokes);
+    if (this._keystrokes.length >= this._maxKeystrokes) {
+      this.stop();
+      return;
+    }
+
+    // Otherwise, wait for the next keystroke.
+    this._startTimer();
+  }
+
+  /**
+   * Remove the event listener and resume the key map.
+   */
+  private _endRecording(): void {
+    this._clearTimer();
+    this._recording = false;
+    this._node.removeEventListener('keydown', this, true);
+    if (this._suspension) {
+      this._suspension.dispose();
+      this._suspension = null;
+    }
+  }
+
+  /**
+   * Start or restart the recording timer.
+   */
+  private _startTimer(): void {
+    this._clearTimer();
+    this._timer = setTimeout(() => {
+      this._timer = 0;
+      this.stop();
+    }, this._timeout);
+  }
+
+  /**
+   * Clear the recording timer.
+   */
+  private _clearTimer(): void {
+    if (this._timer !== 0) {
+      clearTimeout(this._timer);
+      this._timer = 0;
+    }
+  }
+
+  private _timer = 0;
+  private _recording = false;
+  private _timeout = 1000;
+  private _maxKeystrokes = 2;
+  private _node: HTMLElement;
+  private _keymap: KeymapManager;
+  private _keystrokes: string[] = [];
+  private _suspension: IDisposable = null;
+}
+
+
+/**
+ * Test whether a resolved keystroke is valid for a key binding.
+ */
+function isValidKeystroke(keystroke: string): boolean {
+  if (!keystroke) {
+    return false;
+  }
+  try {
+    return normalizeKeystroke(keystroke) === keystroke;
+  } catch (e) {
+    return false;
+  }
+}
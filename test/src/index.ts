@@ -10,10 +10,67 @@
 import expect = require('expect.js');
 
 import {
-  IKeyBinding, KeymapManager
+  CommandRegistry, ContextKeyService, IContextChangedArgs, IFormatOptions,
+  IKeyBinding, IKeyHandlerContext, IKeymapFile, IModeChangedArgs,
+  IPendingChangedArgs, IssueKind, KeyResolution, KeyTrigger, KeymapLayer,
+  KeymapManager, KeystrokeRecorder, PendingChange, Platform,
+  PropagationPolicy, RejectReason, ReplayPolicy, activeKeyboardLayout,
+  analyzeKeymap, detectKeyboardLayout, formatKeystroke, formatSequence,
+  getKeyboardLayout, keyboardLayoutNames, keystrokeForKeydownEvent,
+  loadKeymap, matchKeyboardLayout, normalizeKeystroke, parseWhenClause,
+  registerKeyboardLayout, resolveKeydownEvent, serializeBindings,
+  serializeKeymap, setKeyboardLayout
 } from '../../lib/index';
 
 
+/**
+ * The ES6 promise constructor, which is not declared for ES5.
+ */
+declare var Promise: any;
+
+
+/**
+ * Create a promise with exposed resolve and reject functions.
+ */
+function createDeferred(): any {
+  var deferred: any = {};
+  deferred.promise = new Promise((resolve: any, reject: any) => {
+    deferred.resolve = resolve;
+    deferred.reject = reject;
+  });
+  return deferred;
+}
+
+
+/**
+ * Create a mock `'keydown'` event for unit-tests.
+ *
+ * The returned object only implements the properties which are used
+ * by the keymap, and records the calls to the event methods.
+ */
+function createKeyEvent(options: any): KeyboardEvent {
+  var event: any = {
+    type: options.type || 'keydown',
+    key: options.key,
+    code: options.code,
+    keyCode: options.keyCode || 0,
+    location: options.location || 0,
+    ctrlKey: !!options.ctrlKey,
+    altKey: !!options.altKey,
+    shiftKey: !!options.shiftKey,
+    metaKey: !!options.metaKey,
+    repeat: !!options.repeat,
+    target: options.target || document.body,
+    currentTarget: options.currentTarget || document.documentElement,
+    defaultPrevented: false,
+    propagationStopped: false,
+    preventDefault: () => { event.defaultPrevented = true; },
+    stopPropagation: () => { event.propagationStopped = true; },
+  };
+  return event as KeyboardEvent;
+}
+
+
 /**
  * Helper function to generate keyboard events for unit-tests.
  */
@@ -41,6 +98,2070 @@ describe('phosphor-keymap', () => {
   it('should pass', () => {
 
   });
+
+  describe('resolveKeydownEvent()', () => {
+
+    it('should resolve a key from the `key` property', () => {
+      var event = createKeyEvent({ key: 'a', code: 'KeyA', keyCode: 65 });
+      var result = resolveKeydownEvent(event);
+      expect(result.keystroke).to.be('a');
+      expect(result.key).to.be('a');
+      expect(result.resolution).to.be(KeyResolution.Key);
+    });
+
+    it('should resolve named keys from the `key` property', () => {
+      var event = createKeyEvent({ key: 'ArrowLeft', ctrlKey: true });
+      expect(resolveKeydownEvent(event).keystroke).to.be('ctrl+left');
+      event = createKeyEvent({ key: 'Escape' });
+      expect(resolveKeydownEvent(event).keystroke).to.be('esc');
+      event = createKeyEvent({ key: ' ' });
+      expect(resolveKeydownEvent(event).keystroke).to.be('space');
+    });
+
+    it('should resolve numpad keys from the `key` property', () => {
+      var event = createKeyEvent({ key: '7', location: 3 });
+      expect(resolveKeydownEvent(event).keystroke).to.be('numpad7');
+    });
+
+    it('should use the `code` for shifted characters', () => {
+      var event = createKeyEvent({ key: ':', code: 'Semicolon', shiftKey: true });
+      var result = resolveKeydownEvent(event);
+      expect(result.keystroke).to.be('shift+;');
+      expect(result.resolution).to.be(KeyResolution.Code);
+    });
+
+    it('should keep shifted letters from the `key` property', () => {
+      var event = createKeyEvent({ key: 'A', code: 'KeyA', shiftKey: true });
+      var result = resolveKeydownEvent(event);
+      expect(result.keystroke).to.be('shift+a');
+      expect(result.resolution).to.be(KeyResolution.Key);
+    });
+
+    it('should fall back to the `keyCode` property', () => {
+      var event = createKeyEvent({ keyCode: 187, ctrlKey: true });
+      var result = resolveKeydownEvent(event);
+      expect(result.keystroke).to.be('ctrl+=');
+      expect(result.resolution).to.be(KeyResolution.KeyCode);
+    });
+
+    it('should resolve the physical keystroke from the `code`', () => {
+      var event = createKeyEvent({ key: 'z', code: 'KeyY', ctrlKey: true });
+      var result = resolveKeydownEvent(event);
+      expect(result.keystroke).to.be('ctrl+z');
+      expect(result.physical).to.be('ctrl+[KeyY]');
+    });
+
+    it('should report an unresolved key', () => {
+      var event = createKeyEvent({ key: 'Unidentified', keyCode: 1000 });
+      var result = resolveKeydownEvent(event);
+      expect(result.keystroke).to.be('');
+      expect(result.resolution).to.be(KeyResolution.None);
+      expect(keystrokeForKeydownEvent(event)).to.be('');
+    });
+
+  });
+  describe('normalizeKeystroke()', () => {
+
+    it('should canonically order the modifiers', () => {
+      expect(normalizeKeystroke('Shift+Ctrl+A')).to.be('ctrl+shift+a');
+      expect(normalizeKeystroke('cmd+alt+f11')).to.be('alt+cmd+f11');
+    });
+
+    it('should throw for an invalid keystroke', () => {
+      expect(() => normalizeKeystroke('ctrl-a')).to.throwError();
+      expect(() => normalizeKeystroke('shift++o')).to.throwError();
+      expect(() => normalizeKeystroke('ctrl+meta')).to.throwError();
+    });
+
+    it('should accept a lone modifier', () => {
+      expect(normalizeKeystroke('Shift')).to.be('shift');
+      expect(normalizeKeystroke('accel', Platform.Mac)).to.be('cmd');
+      expect(() => normalizeKeystroke('ctrl+shift')).to.throwError();
+      expect(() => normalizeKeystroke('shift+')).to.throwError();
+    });
+
+    it('should accept a chord of two keys', () => {
+      expect(normalizeKeystroke('K+J')).to.be('j+k');
+      expect(() => normalizeKeystroke('k+shift+j')).to.throwError();
+      expect(normalizeKeystroke('shift+k+j')).to.be('shift+j+k');
+      expect(() => normalizeKeystroke('j+k+l')).to.throwError();
+      expect(() => normalizeKeystroke('j+j')).to.throwError();
+      expect(() => normalizeKeystroke('j+')).to.throwError();
+    });
+
+    it('should preserve the casing of a physical key', () => {
+      expect(normalizeKeystroke('shift+[keyw]')).to.be('shift+[KeyW]');
+      expect(normalizeKeystroke('[BRACKETLEFT]')).to.be('[BracketLeft]');
+    });
+
+    it('should not confuse bracket keys with physical keys', () => {
+      expect(normalizeKeystroke('ctrl+[')).to.be('ctrl+[');
+      expect(normalizeKeystroke('alt+]')).to.be('alt+]');
+    });
+
+    it('should throw for an invalid physical key', () => {
+      expect(() => normalizeKeystroke('[KeyAA]')).to.throwError();
+      expect(() => normalizeKeystroke('[ShiftLeft]')).to.throwError();
+      expect(() => normalizeKeystroke('[KeyA')).to.throwError();
+    });
+
+    it('should resolve the accel modifier for the platform', () => {
+      expect(normalizeKeystroke('accel+s', Platform.Mac)).to.be('cmd+s');
+      expect(normalizeKeystroke('accel+s', Platform.Windows)).to.be('ctrl+s');
+      expect(normalizeKeystroke('shift+Accel+s', Platform.Linux)).to.be('ctrl+shift+s');
+    });
+
+    it('should throw for an accel modifier which duplicates a modifier', () => {
+      expect(() => normalizeKeystroke('accel+ctrl+s', Platform.Linux)).to.throwError();
+      expect(normalizeKeystroke('accel+ctrl+s', Platform.Mac)).to.be('ctrl+cmd+s');
+    });
+
+  });
+
+  describe('formatKeystroke()', () => {
+
+    it('should use symbols on OSX', () => {
+      var options = { platform: Platform.Mac };
+      expect(formatKeystroke('cmd+shift+alt+ctrl+f11', options)).to.be('⌃⌥⇧⌘F11');
+      expect(formatKeystroke('accel+pageup', options)).to.be('⌘⇞');
+      expect(formatKeystroke('esc', options)).to.be('⎋');
+      expect(formatKeystroke('shift', options)).to.be('⇧');
+      expect(formatKeystroke('ctrl+j+k', options)).to.be('⌃J+K');
+    });
+
+    it('should use names on other platforms', () => {
+      var options = { platform: Platform.Windows };
+      expect(formatKeystroke('ctrl+alt+shift+f11', options)).to.be('Ctrl+Alt+Shift+F11');
+      expect(formatKeystroke('accel+s', options)).to.be('Ctrl+S');
+      expect(formatKeystroke('cmd+pagedown', options)).to.be('Win+PageDown');
+      expect(formatKeystroke('ctrl+`', options)).to.be('Ctrl+`');
+      expect(formatKeystroke('numpad5', options)).to.be('Num 5');
+      expect(formatKeystroke('cmd+a', { platform: Platform.Linux })).to.be('Super+A');
+    });
+
+    it('should display a physical key as its character', () => {
+      var options = { platform: Platform.Linux };
+      expect(formatKeystroke('ctrl+[KeyW]', options)).to.be('Ctrl+W');
+      expect(formatKeystroke('ctrl+[Semicolon]', options)).to.be('Ctrl+;');
+      expect(formatKeystroke('[BracketLeft]', options)).to.be('[');
+      expect(formatKeystroke('[Quote]', options)).to.be('\'');
+      expect(formatKeystroke('[Numpad5]', options)).to.be('Num 5');
+      expect(formatKeystroke('[IntlRo]', options)).to.be('IntlRo');
+      var mac = { platform: Platform.Mac };
+      var sequence = 'shift+[ArrowLeft] [Escape] [Space]';
+      expect(formatSequence(sequence, mac)).to.be('⇧← ⎋ Space');
+      setKeyboardLayout('fr-FR');
+      try {
+        expect(formatKeystroke('ctrl+[KeyW]', options)).to.be('Ctrl+Z');
+      } finally {
+        setKeyboardLayout('en-US');
+      }
+    });
+
+    it('should support localized names and separators', () => {
+      var options: IFormatOptions = {
+        platform: Platform.Linux,
+        keySeparator: ' + ',
+        keyNames: { 'ctrl': 'Strg', 'delete': 'Entf' }
+      };
+      expect(formatKeystroke('ctrl+shift+delete', options)).to.be('Strg + Shift + Entf');
+    });
+
+    it('should throw for an invalid keystroke', () => {
+      expect(() => { formatKeystroke('ctrl+'); }).to.throwError();
+    });
+
+  });
+
+  describe('formatSequence()', () => {
+
+    it('should format each keystroke of a sequence', () => {
+      var options: IFormatOptions = { platform: Platform.Windows };
+      expect(formatSequence('ctrl+k  ctrl+t', options)).to.be('Ctrl+K Ctrl+T');
+      options = { platform: Platform.Mac, sequenceSeparator: ', ' };
+      expect(formatSequence('accel+k accel+t', options)).to.be('⌘K, ⌘T');
+    });
+
+  });
+
+  describe('keyboard layouts', () => {
+
+    afterEach(() => {
+      setKeyboardLayout('en-US');
+    });
+
+    it('should ship the built-in layouts', () => {
+      var names = keyboardLayoutNames();
+      ['en-US', 'en-GB', 'de-DE', 'fr-FR', 'sv-SE', 'nb-NO', 'da-DK'].forEach(name => {
+        expect(names.indexOf(name)).to.not.be(-1);
+      });
+      expect(activeKeyboardLayout().name).to.be('en-US');
+    });
+
+    it('should throw when setting an unknown layout', () => {
+      expect(() => setKeyboardLayout('xx-XX')).to.throwError();
+    });
+
+    it('should validate layout characters for the active layout', () => {
+      expect(() => normalizeKeystroke('ctrl+ü')).to.throwError();
+      setKeyboardLayout('de-DE');
+      expect(normalizeKeystroke('ctrl+Ü')).to.be('ctrl+ü');
+    });
+
+    it('should consume shift for a shifted layout symbol', () => {
+      setKeyboardLayout('de-DE');
+      var event = createKeyEvent({
+        key: '/', code: 'Digit7', ctrlKey: true, shiftKey: true
+      });
+      var result = resolveKeydownEvent(event);
+      expect(result.keystroke).to.be('ctrl+/');
+      expect(result.physical).to.be('ctrl+shift+[Digit7]');
+    });
+
+    it('should map the code through the active layout', () => {
+      setKeyboardLayout('de-DE');
+      var event = createKeyEvent({ key: 'Dead', code: 'Semicolon' });
+      expect(resolveKeydownEvent(event).keystroke).to.be('ö');
+      event = createKeyEvent({ key: 'Unidentified', code: 'BracketRight' });
+      expect(resolveKeydownEvent(event).keystroke).to.be('');
+    });
+
+    it('should map the legacy key code through the active layout', () => {
+      setKeyboardLayout('fr-FR');
+      var event = createKeyEvent({ keyCode: 223, ctrlKey: true });
+      expect(resolveKeydownEvent(event).keystroke).to.be('ctrl+!');
+    });
+
+    it('should match a layout from a set of known keys', () => {
+      var azerty: { [code: string]: string } = {
+        KeyQ: 'a', KeyW: 'z', KeyA: 'q', Semicolon: 'm'
+      };
+      var qwerty: { [code: string]: string } = {
+        KeyQ: 'q', KeyY: 'y', Semicolon: ';'
+      };
+      expect(matchKeyboardLayout(azerty)).to.be('fr-FR');
+      expect(matchKeyboardLayout(qwerty)).to.be('en-US');
+    });
+
+    it('should detect a layout from the browser languages', () => {
+      var nav: any = navigator;
+      var stub = (name: string, value: any) => {
+        Object.defineProperty(nav, name, { value: value, configurable: true });
+      };
+      try {
+        stub('languages', ['xx-XX', 'de-AT', 'fr-FR']);
+        expect(detectKeyboardLayout()).to.be('de-DE');
+        stub('languages', ['en-IE']);
+        expect(detectKeyboardLayout()).to.be('en-GB');
+        stub('languages', void 0);
+        stub('language', 'sv-SE');
+        expect(detectKeyboardLayout()).to.be('sv-SE');
+        stub('languages', ['ja-JP', 'zh-CN']);
+        expect(detectKeyboardLayout()).to.be('en-US');
+        expect(activeKeyboardLayout().name).to.be('en-US');
+      } finally {
+        delete nav.languages;
+        delete nav.language;
+      }
+    });
+
+    it('should register and unregister a custom layout', () => {
+      var disposable = registerKeyboardLayout({
+        name: 'test', languages: [], codes: { KeyQ: '@' }, keyCodes: {}
+      });
+      expect(getKeyboardLayout('test').name).to.be('test');
+      expect(() => registerKeyboardLayout(getKeyboardLayout('test'))).to.throwError();
+      setKeyboardLayout('test');
+      expect(normalizeKeystroke('ctrl+@')).to.be('ctrl+@');
+      disposable.dispose();
+      expect(getKeyboardLayout('test')).to.be(void 0);
+      expect(activeKeyboardLayout().name).to.be('en-US');
+    });
+
+  });
+
+  describe('CommandRegistry', () => {
+
+    it('should add and remove commands', () => {
+      var registry = new CommandRegistry();
+      var ids: string[] = [];
+      registry.commandChanged.connect((sender, args) => { ids.push(args.id); });
+      var disposable = registry.add([
+        { id: 'test:a', label: 'A', execute: () => 'a' }
+      ]);
+      expect(registry.has('test:a')).to.be(true);
+      expect(registry.ids()).to.eql(['test:a']);
+      expect(registry.label('test:a')).to.be('A');
+      disposable.dispose();
+      expect(registry.has('test:a')).to.be(false);
+      expect(ids).to.eql(['test:a', 'test:a']);
+    });
+
+    it('should report ignored commands to the logger', () => {
+      var warnings: string[] = [];
+      var registry = new CommandRegistry({
+        logger: { warn: message => { warnings.push(message); } }
+      });
+      registry.add([
+        { id: '', execute: () => 'a' },
+        { id: 'test:a', execute: () => 'a' },
+        { id: 'test:a', execute: () => 'b' }
+      ]);
+      expect(registry.ids()).to.eql(['test:a']);
+      expect(warnings).to.eql([
+        'command with an empty id',
+        'command already registered: test:a'
+      ]);
+    });
+
+    it('should report the enabled and checked state', () => {
+      var registry = new CommandRegistry();
+      registry.add([
+        { id: 'test:a', execute: () => { } },
+        {
+          id: 'test:b', execute: () => { },
+          isEnabled: (args: any) => args === 1,
+          isChecked: (args: any) => args === 2
+        }
+      ]);
+      expect(registry.isEnabled('test:a')).to.be(true);
+      expect(registry.isChecked('test:a')).to.be(false);
+      expect(registry.isEnabled('test:b', 1)).to.be(true);
+      expect(registry.isEnabled('test:b', 2)).to.be(false);
+      expect(registry.isChecked('test:b', 2)).to.be(true);
+      expect(registry.isEnabled('test:c')).to.be(false);
+    });
+
+    it('should execute a command with arguments', () => {
+      var registry = new CommandRegistry();
+      registry.add([{ id: 'test:a', execute: (args: any) => args * 2 }]);
+      expect(registry.execute('test:a', 21)).to.be(42);
+      expect(() => registry.execute('test:b')).to.throwError();
+    });
+
+  });
+
+  describe('ContextKeyService', () => {
+
+    it('should emit contextChanged when a value changes', () => {
+      var context = new ContextKeyService();
+      var changes: IContextChangedArgs[] = [];
+      context.contextChanged.connect((sender, args) => { changes.push(args); });
+      context.set('readOnly', true);
+      context.set('readOnly', true);
+      context.set('tabCount', 2);
+      context.delete('readOnly');
+      context.delete('readOnly');
+      expect(context.keys()).to.eql(['tabCount']);
+      expect(context.has('readOnly')).to.be(false);
+      expect(context.get('tabCount')).to.be(2);
+      expect(changes.map(args => args.key)).to.eql(['readOnly', 'tabCount', 'readOnly']);
+    });
+
+  });
+
+  describe('parseWhenClause()', () => {
+
+    it('should evaluate logical operators with precedence', () => {
+      var context = new ContextKeyService();
+      var clause = parseWhenClause('a || b && !c');
+      expect(clause.keys).to.eql(['a', 'b', 'c']);
+      expect(clause.evaluate(context)).to.be(false);
+      context.set('b', true);
+      expect(clause.evaluate(context)).to.be(true);
+      context.set('c', true);
+      expect(clause.evaluate(context)).to.be(false);
+      context.set('a', 'yes');
+      expect(clause.evaluate(context)).to.be(true);
+      expect(parseWhenClause('!(a || b)').evaluate(context)).to.be(false);
+    });
+
+    it('should evaluate comparisons', () => {
+      var context = new ContextKeyService();
+      context.set('editor.langId', 'python');
+      context.set('tabCount', 3);
+      expect(parseWhenClause('editor.langId == "python"').evaluate(context)).to.be(true);
+      expect(parseWhenClause("editor.langId != 'python'").evaluate(context)).to.be(false);
+      expect(parseWhenClause('tabCount > 1 && tabCount <= 3').evaluate(context)).to.be(true);
+      expect(parseWhenClause('tabCount == 3.5 || false').evaluate(context)).to.be(false);
+    });
+
+    it('should bind negation more tightly than comparisons', () => {
+      var context = new ContextKeyService();
+      context.set('tabCount', 0);
+      context.set('readOnly', true);
+      expect(parseWhenClause('!tabCount == false').evaluate(context)).to.be(false);
+      expect(parseWhenClause('!tabCount == true').evaluate(context)).to.be(true);
+      expect(parseWhenClause('!(tabCount == false)').evaluate(context)).to.be(true);
+      expect(parseWhenClause('readOnly == !!readOnly').evaluate(context)).to.be(true);
+    });
+
+    it('should throw for invalid syntax', () => {
+      var invalid = ['', 'a &&', 'a & b', '(a', 'a b', '== a', 'a == == b', '#'];
+      invalid.forEach(source => {
+        expect(() => { parseWhenClause(source); }).to.throwError();
+      });
+    });
+
+  });
+
+  describe('KeymapManager', () => {
+
+    describe('#add()', () => {
+
+      it('should report the accepted and rejected bindings', () => {
+        var warnings: string[] = [];
+        var keymap = new KeymapManager({ logger: { warn: m => { warnings.push(m); } } });
+        var result = keymap.add('*', [
+          { sequence: 'Ctrl+S', handler: () => true },
+          { sequence: 'ctrl-s', handler: () => true },
+          { sequence: 'ctrl+x', handler: null },
+          { sequence: 'ctrl+k ctrl+t', handler: () => true, timeout: -5 }
+        ]);
+        expect(result.accepted.length).to.be(1);
+        expect(result.accepted[0].sequence).to.be('ctrl+s');
+        expect(result.rejected.map(r => r.index)).to.eql([1, 2, 3]);
+        expect(result.rejected.map(r => r.reason)).to.eql([
+          RejectReason.InvalidSequence,
+          RejectReason.NullHandler,
+          RejectReason.InvalidTimeout
+        ]);
+        expect(warnings).to.eql(result.rejected.map(r => r.message));
+      });
+
+      it('should reject invalid command bindings', () => {
+        var keymap = new KeymapManager({ logger: { warn: () => { } } });
+        var result = keymap.add('*', [{ sequence: 'ctrl+s', command: 'test:save' }]);
+        expect(result.rejected[0].reason).to.be(RejectReason.InvalidCommand);
+        keymap = new KeymapManager({
+          commands: new CommandRegistry(), logger: { warn: () => { } }
+        });
+        result = keymap.add('*', [
+          { sequence: 'ctrl+s', command: 'test:save', handler: () => true }
+        ]);
+        expect(result.rejected[0].reason).to.be(RejectReason.InvalidCommand);
+      });
+
+      it('should reject all bindings for an invalid selector', () => {
+        var warnings: string[] = [];
+        var keymap = new KeymapManager({ logger: { warn: m => { warnings.push(m); } } });
+        var result = keymap.add('..bad', [
+          { sequence: 'a', handler: () => true },
+          { sequence: 'b', handler: () => true }
+        ]);
+        expect(result.accepted.length).to.be(0);
+        expect(result.rejected.length).to.be(2);
+        expect(result.rejected[0].reason).to.be(RejectReason.InvalidSelector);
+        expect(warnings.length).to.be(1);
+        expect(result.isDisposed).to.be(false);
+        result.dispose();
+        expect(result.isDisposed).to.be(true);
+      });
+
+      it('should remove the accepted bindings when disposed', () => {
+        var keymap = new KeymapManager();
+        var count = 0;
+        var result = keymap.add('*', [
+          { sequence: 'x', handler: () => { count++; return true; } }
+        ]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'x' }));
+        result.dispose();
+        keymap.processKeydownEvent(createKeyEvent({ key: 'x' }));
+        expect(count).to.be(1);
+      });
+
+    });
+
+    describe('#processKeydownEvent()', () => {
+
+      it('should invoke the handler for a matching keystroke', () => {
+        var keymap = new KeymapManager();
+        var called = false;
+        keymap.add('*', [{
+          sequence: 'ctrl+s',
+          handler: () => { called = true; return true; }
+        }]);
+        var event = createKeyEvent({ key: 's', code: 'KeyS', ctrlKey: true });
+        keymap.processKeydownEvent(event);
+        expect(called).to.be(true);
+        expect(event.defaultPrevented).to.be(true);
+      });
+
+      it('should resolve accel bindings for an injected platform', () => {
+        var keymap = new KeymapManager({ platform: Platform.Mac });
+        var count = 0;
+        keymap.add('*', [{
+          sequence: 'accel+s',
+          handler: () => { count++; return true; }
+        }]);
+        expect(keymap.platform).to.be(Platform.Mac);
+        keymap.processKeydownEvent(createKeyEvent({ key: 's', ctrlKey: true }));
+        expect(count).to.be(0);
+        keymap.processKeydownEvent(createKeyEvent({ key: 's', metaKey: true }));
+        expect(count).to.be(1);
+      });
+
+      it('should match a physical key regardless of the character', () => {
+        var keymap = new KeymapManager();
+        var count = 0;
+        keymap.add('*', [{
+          sequence: '[KeyW]',
+          handler: () => { count++; return true; }
+        }]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'z', code: 'KeyW' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'w', code: 'KeyZ' }));
+        expect(count).to.be(1);
+      });
+
+      it('should match a sequence which mixes logical and physical keys', () => {
+        var keymap = new KeymapManager();
+        var called = false;
+        keymap.add('*', [{
+          sequence: 'ctrl+k [Digit1]',
+          handler: () => { called = true; return true; }
+        }]);
+        var first = createKeyEvent({ key: 'k', code: 'KeyK', ctrlKey: true });
+        var second = createKeyEvent({ key: '&', code: 'Digit1' });
+        keymap.processKeydownEvent(first);
+        expect(called).to.be(false);
+        expect(first.defaultPrevented).to.be(true);
+        keymap.processKeydownEvent(second);
+        expect(called).to.be(true);
+      });
+
+      it('should invoke the handler with the match context', () => {
+        var node = document.createElement('div');
+        node.className = 'editor';
+        var child = document.createElement('span');
+        node.appendChild(child);
+        document.body.appendChild(node);
+        var keymap = new KeymapManager();
+        var context: IKeyHandlerContext = null;
+        keymap.add('.editor', [{
+          sequence: 'Ctrl+K Ctrl+T',
+          handler: ctx => { context = ctx; return true; }
+        }]);
+        var first = createKeyEvent({ key: 'k', ctrlKey: true, target: child });
+        var second = createKeyEvent({ key: 't', ctrlKey: true, target: child });
+        keymap.processKeydownEvent(first);
+        keymap.processKeydownEvent(second);
+        expect(context.event).to.be(second);
+        expect(context.events).to.eql([first, second]);
+        expect(context.target).to.be(node);
+        expect(context.sequence).to.be('ctrl+k ctrl+t');
+        expect(context.selector).to.be('.editor');
+        expect(context.manager).to.be(keymap);
+        document.body.removeChild(node);
+      });
+
+      it('should execute the command of a command binding', () => {
+        var commands = new CommandRegistry();
+        var received: any = null;
+        commands.add([{ id: 'test:save', execute: (args: any) => { received = args; } }]);
+        var keymap = new KeymapManager({ commands: commands });
+        keymap.add('*', [{ sequence: 'ctrl+s', command: 'test:save', args: { all: true } }]);
+        var event = createKeyEvent({ key: 's', ctrlKey: true });
+        keymap.processKeydownEvent(event);
+        expect(received).to.eql({ all: true });
+        expect(event.defaultPrevented).to.be(true);
+      });
+
+      it('should not consume the keystroke for a disabled command', () => {
+        var commands = new CommandRegistry();
+        var enabled = false;
+        var count = 0;
+        commands.add([{
+          id: 'test:fold', execute: () => { count++; }, isEnabled: () => enabled
+        }]);
+        var keymap = new KeymapManager({ commands: commands });
+        keymap.add('*', [{ sequence: 'ctrl+k ctrl+f', command: 'test:fold' }]);
+        var event = createKeyEvent({ key: 'k', ctrlKey: true });
+        keymap.processKeydownEvent(event);
+        expect(event.defaultPrevented).to.be(false);
+        expect(keymap.isPending).to.be(false);
+        enabled = true;
+        keymap.processKeydownEvent(createKeyEvent({ key: 'k', ctrlKey: true }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'f', ctrlKey: true }));
+        expect(count).to.be(1);
+      });
+
+      it('should not replay swallowed events by default', () => {
+        var keymap = new KeymapManager();
+        keymap.add('*', [{ sequence: 'd d', handler: () => true }]);
+        var first = createKeyEvent({ key: 'd' });
+        var second = createKeyEvent({ key: 'x' });
+        keymap.processKeydownEvent(first);
+        keymap.processKeydownEvent(second);
+        expect(first.defaultPrevented).to.be(true);
+        expect(second.defaultPrevented).to.be(false);
+      });
+
+      it('should pass swallowed events to the replay handler', () => {
+        var replayed: KeyboardEvent[] = [];
+        var keymap = new KeymapManager({
+          replayPolicy: ReplayPolicy.Callback,
+          replayHandler: events => { replayed = events; }
+        });
+        keymap.add('*', [{ sequence: 'd d', handler: () => true }]);
+        var first = createKeyEvent({ key: 'd' });
+        keymap.processKeydownEvent(first);
+        expect(replayed.length).to.be(0);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'x' }));
+        expect(replayed.length).to.be(1);
+        expect(replayed[0]).to.be(first);
+      });
+
+      it('should process the failing event as a new sequence', () => {
+        var keymap = new KeymapManager();
+        var called = false;
+        keymap.add('*', [
+          { sequence: 'ctrl+k ctrl+t', handler: () => true },
+          { sequence: 'x', handler: () => { called = true; return true; } }
+        ]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'k', ctrlKey: true }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'x' }));
+        expect(called).to.be(true);
+      });
+
+      it('should dispatch a pending exact match when the sequence fails', () => {
+        var replayed: KeyboardEvent[] = [];
+        var keymap = new KeymapManager({
+          replayPolicy: ReplayPolicy.Callback,
+          replayHandler: events => { replayed = events; }
+        });
+        var called = false;
+        keymap.add('*', [
+          { sequence: 'd', handler: () => { called = true; return true; } },
+          { sequence: 'd d', handler: () => true }
+        ]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'd' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'x' }));
+        expect(called).to.be(true);
+        expect(replayed.length).to.be(0);
+      });
+
+      it('should synthesize the input of swallowed events', () => {
+        var textarea = document.createElement('textarea');
+        document.body.appendChild(textarea);
+        var keymap = new KeymapManager({ replayPolicy: ReplayPolicy.Synthesize });
+        keymap.add('*', [{ sequence: 'd d', handler: () => true }]);
+        var inputs = 0;
+        textarea.addEventListener('input', () => { inputs++; });
+        keymap.processKeydownEvent(createKeyEvent({ key: 'd', target: textarea }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'x', target: textarea }));
+        expect(textarea.value).to.be('d');
+        expect(inputs).to.be(1);
+        document.body.removeChild(textarea);
+      });
+
+      it('should replay swallowed events if the sequence is not handled', () => {
+        var textarea = document.createElement('textarea');
+        document.body.appendChild(textarea);
+        var keymap = new KeymapManager({ replayPolicy: ReplayPolicy.Synthesize });
+        var called = false;
+        keymap.add('*', [{
+          sequence: 'd d',
+          handler: () => { called = true; return false; }
+        }]);
+        var event = createKeyEvent({ key: 'd', target: textarea });
+        keymap.processKeydownEvent(createKeyEvent({ key: 'd', target: textarea }));
+        keymap.processKeydownEvent(event);
+        expect(called).to.be(true);
+        expect(event.defaultPrevented).to.be(false);
+        expect(textarea.value).to.be('d');
+        document.body.removeChild(textarea);
+      });
+
+      it('should append the input to a control without a selection', () => {
+        var input = document.createElement('input');
+        input.type = 'email';
+        input.value = 'bob@x';
+        document.body.appendChild(input);
+        var keymap = new KeymapManager({ replayPolicy: ReplayPolicy.Synthesize });
+        keymap.add('*', [{ sequence: 'd d', handler: () => true }]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'd', target: input }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'x', target: input }));
+        expect(input.value).to.be('bob@xd');
+        document.body.removeChild(input);
+      });
+
+    });
+
+    describe('#findBindingsAt()', () => {
+
+      it('should find the effective bindings at an element', () => {
+        var node = document.createElement('div');
+        node.className = 'editor';
+        document.body.appendChild(node);
+        var keymap = new KeymapManager();
+        var save = () => true;
+        keymap.add('body', [
+          { sequence: 'ctrl+s', handler: () => true },
+          { sequence: 'ctrl+o', handler: () => true }
+        ]);
+        keymap.add('.editor', [{ sequence: 'ctrl+s', handler: save }]);
+        keymap.add('.other', [{ sequence: 'ctrl+p', handler: () => true }]);
+        var bindings = keymap.findBindingsAt(node);
+        expect(bindings.map(b => b.sequence)).to.eql(['ctrl+s', 'ctrl+o']);
+        expect(bindings[0].handler).to.be(save);
+        document.body.removeChild(node);
+      });
+
+    });
+
+    describe('#bindings', () => {
+
+      it('should return the bindings in priority order', () => {
+        var keymap = new KeymapManager();
+        var handler = () => true;
+        keymap.add('*', [{ sequence: 'Ctrl+A', handler: handler }]);
+        keymap.add('.foo', [{ sequence: 'ctrl+b', handler: handler }]);
+        var entries = keymap.bindings;
+        expect(entries.length).to.be(2);
+        expect(entries[0].selector).to.be('.foo');
+        expect(entries[0].binding.sequence).to.be('ctrl+b');
+        expect(entries[1].selector).to.be('*');
+        expect(entries[1].binding.sequence).to.be('ctrl+a');
+      });
+
+    });
+
+    describe('#findShortcuts()', () => {
+
+      it('should return the shortcuts for a given command', () => {
+        var commands = new CommandRegistry();
+        commands.add([
+          { id: 'id:first', execute: () => { } },
+          { id: 'id:second', execute: () => { } }
+        ]);
+        var keymap = new KeymapManager({ commands: commands });
+        keymap.add('*', [
+          { sequence: 'Ctrl+F', command: 'id:first' },
+          { sequence: 'ctrl+s', command: 'id:second' },
+          { sequence: 'ctrl+k ctrl+f', command: 'id:first' }
+        ]);
+        expect(keymap.findShortcuts('id:first')).to.eql(['ctrl+k ctrl+f', 'ctrl+f']);
+        expect(keymap.findShortcuts('id:second')).to.eql(['ctrl+s']);
+        expect(keymap.findShortcuts('id:third')).to.eql([]);
+      });
+
+      it('should return the shortcuts for a given handler', () => {
+        var keymap = new KeymapManager();
+        var handler = () => true;
+        keymap.add('*', [{ sequence: 'ctrl+h', handler: handler }]);
+        expect(keymap.findShortcuts(handler)).to.eql(['ctrl+h']);
+      });
+
+      it('should exclude shadowed shortcuts at a target', () => {
+        var node = document.createElement('div');
+        node.className = 'editor';
+        document.body.appendChild(node);
+        var keymap = new KeymapManager();
+        var find = () => true;
+        keymap.add('body', [
+          { sequence: 'ctrl+f', handler: find },
+          { sequence: 'f3', handler: find }
+        ]);
+        keymap.add('.editor', [{ sequence: 'ctrl+f', handler: () => true }]);
+        expect(keymap.findShortcuts(find)).to.eql(['f3', 'ctrl+f']);
+        expect(keymap.findShortcuts(find, document.body)).to.eql(['f3', 'ctrl+f']);
+        expect(keymap.findShortcuts(find, node)).to.eql(['f3']);
+        document.body.removeChild(node);
+      });
+
+      it('should exclude unbound and inactive shortcuts without a target', () => {
+        var commands = new CommandRegistry();
+        var keymap = new KeymapManager({ commands: commands });
+        keymap.add('.editor', [
+          { sequence: 'ctrl+w', command: 'editor:close' },
+          { sequence: 'ctrl+f4', command: 'editor:close' },
+          { sequence: 'ctrl+q', command: 'editor:close' },
+          { sequence: 'x', command: 'editor:close', mode: 'normal' }
+        ]);
+        keymap.add('body', [{ sequence: 'ctrl+w', unbind: true }], KeymapLayer.User);
+        keymap.add('.editor', [{ sequence: 'ctrl+f4', unbind: true }], KeymapLayer.User);
+        keymap.add('.other', [{ sequence: 'ctrl+q', unbind: true }], KeymapLayer.User);
+        expect(keymap.findShortcuts('editor:close')).to.eql(['ctrl+q']);
+        keymap.pushMode('normal');
+        expect(keymap.findShortcuts('editor:close')).to.eql(['x', 'ctrl+q']);
+      });
+
+    });
+
+    describe('#diffUserLayer()', () => {
+
+      it('should return the user bindings which change the defaults', () => {
+        var keymap = new KeymapManager({ commands: new CommandRegistry() });
+        keymap.add('.editor', [
+          { sequence: 'ctrl+s', command: 'editor:save' },
+          { sequence: 'ctrl+w', command: 'editor:close' }
+        ]);
+        keymap.add('.editor', [
+          { sequence: 'ctrl+s', command: 'editor:save' },
+          { sequence: 'ctrl+w', unbind: true },
+          { sequence: 'ctrl+q', unbind: true },
+          { sequence: 'ctrl+e', command: 'editor:export' }
+        ], KeymapLayer.User);
+        var diff = keymap.diffUserLayer();
+        expect(diff.map(entry => entry.binding.sequence)).to.eql(['ctrl+e', 'ctrl+w']);
+        expect(diff[1].layer).to.be(KeymapLayer.User);
+        expect(diff[1].binding.unbind).to.be(true);
+      });
+
+    });
+
+    describe('layers', () => {
+
+      it('should give the user layer precedence over specificity', () => {
+        var node = document.createElement('div');
+        node.id = 'editor';
+        document.body.appendChild(node);
+        var keymap = new KeymapManager();
+        var result = '';
+        keymap.add('#editor', [{
+          sequence: 'ctrl+s',
+          handler: () => { result = 'default'; return true; }
+        }]);
+        keymap.add('body', [{
+          sequence: 'ctrl+s',
+          handler: () => { result = 'user'; return true; }
+        }], KeymapLayer.User);
+        keymap.add('#editor', [{
+          sequence: 'ctrl+s',
+          handler: () => { result = 'extension'; return true; }
+        }], KeymapLayer.Extension);
+        keymap.processKeydownEvent(createKeyEvent({ key: 's', ctrlKey: true, target: node }));
+        document.body.removeChild(node);
+        expect(result).to.be('user');
+        expect(keymap.bindings.map(entry => entry.layer)).to.eql([
+          KeymapLayer.User, KeymapLayer.Extension, KeymapLayer.Default
+        ]);
+      });
+
+      it('should let an unbound keystroke fall through', () => {
+        var keymap = new KeymapManager();
+        var called = false;
+        keymap.add('*', [{
+          sequence: 'ctrl+w',
+          handler: () => { called = true; return true; }
+        }]);
+        keymap.add('body', [{ sequence: 'ctrl+w', unbind: true }], KeymapLayer.User);
+        var event = createKeyEvent({ key: 'w', ctrlKey: true });
+        keymap.processKeydownEvent(event);
+        expect(called).to.be(false);
+        expect(event.defaultPrevented).to.be(false);
+        expect(keymap.findBindingsAt(document.body)).to.eql([]);
+      });
+
+      it('should not swallow keystrokes for an unbound sequence', () => {
+        var keymap = new KeymapManager();
+        keymap.add('*', [{ sequence: 'ctrl+k ctrl+w', unbind: true }]);
+        var event = createKeyEvent({ key: 'k', ctrlKey: true });
+        keymap.processKeydownEvent(event);
+        expect(keymap.isPending).to.be(false);
+        expect(event.defaultPrevented).to.be(false);
+      });
+
+      it('should not swallow keystrokes of a default which is unbound', () => {
+        var textarea = document.createElement('textarea');
+        document.body.appendChild(textarea);
+        var keymap = new KeymapManager({ replayPolicy: ReplayPolicy.Synthesize });
+        var called = false;
+        keymap.add('*', [{
+          sequence: 'd d',
+          handler: () => { called = true; return true; }
+        }]);
+        keymap.add('body', [{ sequence: 'd d', unbind: true }], KeymapLayer.User);
+        var first = createKeyEvent({ key: 'd', target: textarea });
+        var second = createKeyEvent({ key: 'd', target: textarea });
+        keymap.processKeydownEvent(first);
+        expect(keymap.isPending).to.be(false);
+        keymap.processKeydownEvent(second);
+        expect(called).to.be(false);
+        expect(first.defaultPrevented).to.be(false);
+        expect(second.defaultPrevented).to.be(false);
+        expect(keymap.findCompletions('d', textarea)).to.eql([]);
+        document.body.removeChild(textarea);
+      });
+
+      it('should reject an unbinding with a handler', () => {
+        var keymap = new KeymapManager({ logger: { warn: () => { } } });
+        var result = keymap.add('*', [
+          { sequence: 'ctrl+w', unbind: true, handler: () => true }
+        ]);
+        expect(result.rejected[0].reason).to.be(RejectReason.InvalidCommand);
+      });
+
+    });
+
+    describe('#timeout', () => {
+
+      it('should default to one second', () => {
+        expect(new KeymapManager().timeout).to.be(1000);
+      });
+
+      it('should dispatch a pending exact match after the timeout', (done) => {
+        var keymap = new KeymapManager({ timeout: 10 });
+        var called = false;
+        keymap.add('*', [
+          { sequence: 'd', handler: () => { called = true; return true; } },
+          { sequence: 'd d', handler: () => true }
+        ]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'd' }));
+        expect(called).to.be(false);
+        setTimeout(() => {
+          expect(called).to.be(true);
+          expect(keymap.isPending).to.be(false);
+          done();
+        }, 30);
+      });
+
+      it('should use the longest timeout of the partial matches', (done) => {
+        var keymap = new KeymapManager({ timeout: 10 });
+        keymap.add('*', [
+          { sequence: 'g g', handler: () => true },
+          { sequence: 'g t', handler: () => true, timeout: 60 }
+        ]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'g' }));
+        setTimeout(() => {
+          expect(keymap.isPending).to.be(true);
+          keymap.cancelPending();
+          done();
+        }, 30);
+      });
+
+      it('should wait until escape for an infinite timeout', (done) => {
+        var keymap = new KeymapManager({ timeout: 0 });
+        keymap.add('*', [
+          { sequence: 'g g', handler: () => true, timeout: Infinity }
+        ]);
+        var changes: IPendingChangedArgs[] = [];
+        keymap.pendingChanged.connect((sender, args) => { changes.push(args); });
+        keymap.processKeydownEvent(createKeyEvent({ key: 'g' }));
+        setTimeout(() => {
+          expect(keymap.isPending).to.be(true);
+          var event = createKeyEvent({ key: 'Escape' });
+          keymap.processKeydownEvent(event);
+          expect(keymap.isPending).to.be(false);
+          expect(event.defaultPrevented).to.be(true);
+          expect(changes[1].change).to.be(PendingChange.Cancelled);
+          expect(changes[1].keystrokes).to.eql(['g']);
+          done();
+        }, 20);
+      });
+
+      it('should ignore a binding with a negative timeout', () => {
+        var keymap = new KeymapManager({ logger: { warn: () => { } } });
+        var called = false;
+        keymap.add('*', [
+          { sequence: 'x', handler: () => { called = true; return true; }, timeout: -1 }
+        ]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'x' }));
+        expect(called).to.be(false);
+      });
+
+    });
+
+    describe('#findCompletions()', () => {
+
+      it('should find the bindings which complete a prefix', () => {
+        var keymap = new KeymapManager();
+        keymap.add('*', [
+          { sequence: 'ctrl+k ctrl+t', handler: () => true },
+          { sequence: 'ctrl+k', handler: () => true },
+          { sequence: 'ctrl+x ctrl+s', handler: () => true },
+          { sequence: 'Ctrl+K Ctrl+U', handler: () => true }
+        ]);
+        var seqs = keymap.findCompletions('ctrl+k', document.body).map(b => b.sequence);
+        expect(seqs).to.eql(['ctrl+k ctrl+u', 'ctrl+k ctrl+t']);
+      });
+
+      it('should filter and order the bindings by selector', () => {
+        var node = document.createElement('div');
+        node.className = 'editor';
+        document.body.appendChild(node);
+        var keymap = new KeymapManager();
+        keymap.add('.editor', [{ sequence: 'ctrl+k ctrl+e', handler: () => true }]);
+        keymap.add('body', [{ sequence: 'ctrl+k ctrl+b', handler: () => true }]);
+        keymap.add('.other', [{ sequence: 'ctrl+k ctrl+o', handler: () => true }]);
+        var seqs = keymap.findCompletions('ctrl+k', node).map(b => b.sequence);
+        expect(seqs).to.eql(['ctrl+k ctrl+e', 'ctrl+k ctrl+b']);
+        seqs = keymap.findCompletions('ctrl+k', document.body).map(b => b.sequence);
+        expect(seqs).to.eql(['ctrl+k ctrl+b']);
+        document.body.removeChild(node);
+      });
+
+      it('should throw for an invalid prefix', () => {
+        var keymap = new KeymapManager();
+        expect(() => keymap.findCompletions('ctrl-k', document.body)).to.throwError();
+      });
+
+    });
+
+    describe('#pendingChanged', () => {
+
+      it('should be emitted when the sequence grows and completes', () => {
+        var keymap = new KeymapManager();
+        keymap.add('*', [{ sequence: 'ctrl+k ctrl+t', handler: () => true }]);
+        var changes: IPendingChangedArgs[] = [];
+        keymap.pendingChanged.connect((sender, args) => { changes.push(args); });
+        keymap.processKeydownEvent(createKeyEvent({ key: 'k', ctrlKey: true }));
+        expect(keymap.isPending).to.be(true);
+        expect(keymap.pendingKeystrokes).to.eql(['ctrl+k']);
+        keymap.processKeydownEvent(createKeyEvent({ key: 't', ctrlKey: true }));
+        expect(keymap.isPending).to.be(false);
+        expect(changes.length).to.be(2);
+        expect(changes[0].change).to.be(PendingChange.Extended);
+        expect(changes[0].keystrokes).to.eql(['ctrl+k']);
+        expect(changes[1].change).to.be(PendingChange.Completed);
+        expect(changes[1].keystrokes).to.eql(['ctrl+k', 'ctrl+t']);
+      });
+
+      it('should be emitted when the sequence fails', () => {
+        var keymap = new KeymapManager();
+        keymap.add('*', [{ sequence: 'ctrl+k ctrl+t', handler: () => true }]);
+        var changes: IPendingChangedArgs[] = [];
+        keymap.pendingChanged.connect((sender, args) => { changes.push(args); });
+        keymap.processKeydownEvent(createKeyEvent({ key: 'k', ctrlKey: true }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'x' }));
+        expect(changes.length).to.be(2);
+        expect(changes[1].change).to.be(PendingChange.Failed);
+        expect(changes[1].keystrokes).to.eql(['ctrl+k', 'x']);
+      });
+
+      it('should not be emitted for a single keystroke match', () => {
+        var keymap = new KeymapManager();
+        keymap.add('*', [{ sequence: 'x', handler: () => true }]);
+        var count = 0;
+        keymap.pendingChanged.connect(() => { count++; });
+        keymap.processKeydownEvent(createKeyEvent({ key: 'x' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'y' }));
+        expect(count).to.be(0);
+      });
+
+    });
+
+    describe('#suspend()', () => {
+
+      it('should ignore events until every suspension is disposed', () => {
+        var keymap = new KeymapManager();
+        var count = 0;
+        keymap.add('*', [{ sequence: 'a', handler: () => { count++; return true; } }]);
+        var first = keymap.suspend();
+        var second = keymap.suspend();
+        expect(keymap.isSuspended).to.be(true);
+        var event = createKeyEvent({ key: 'a' });
+        keymap.processKeydownEvent(event);
+        expect(event.defaultPrevented).to.be(false);
+        first.dispose();
+        first.dispose();
+        keymap.processKeydownEvent(createKeyEvent({ key: 'a' }));
+        expect(count).to.be(0);
+        second.dispose();
+        expect(keymap.isSuspended).to.be(false);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'a' }));
+        expect(count).to.be(1);
+      });
+
+      it('should cancel the pending sequence', () => {
+        var keymap = new KeymapManager();
+        keymap.add('*', [{ sequence: 'd d', handler: () => true }]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'd' }));
+        keymap.suspend();
+        expect(keymap.isPending).to.be(false);
+      });
+
+    });
+
+    describe('when clauses', () => {
+
+      it('should treat an unsatisfied clause as a selector mismatch', () => {
+        var context = new ContextKeyService();
+        var keymap = new KeymapManager({ context: context });
+        var result = '';
+        keymap.add('body', [{
+          sequence: 'ctrl+c',
+          handler: () => { result = 'body'; return true; }
+        }]);
+        keymap.add('body', [{
+          sequence: 'ctrl+c',
+          when: 'editorHasSelection && !readOnly',
+          handler: () => { result = 'copy'; return true; }
+        }]);
+        var event = createKeyEvent({ key: 'c', ctrlKey: true });
+        keymap.processKeydownEvent(event);
+        expect(result).to.be('body');
+        context.set('editorHasSelection', true);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'c', ctrlKey: true }));
+        expect(result).to.be('copy');
+        expect(keymap.context).to.be(context);
+        expect(keymap.findBindingsAt(document.body)[0].when).to.be('editorHasSelection && !readOnly');
+      });
+
+      it('should reject a binding with an invalid clause', () => {
+        var keymap = new KeymapManager({ logger: { warn: () => { } } });
+        var result = keymap.add('*', [
+          { sequence: 'ctrl+c', when: 'a &&', handler: () => true }
+        ]);
+        expect(result.rejected[0].reason).to.be(RejectReason.InvalidWhen);
+      });
+
+    });
+
+    describe('modes', () => {
+
+      it('should only activate a mode binding in its mode', () => {
+        var keymap = new KeymapManager();
+        var result: string[] = [];
+        keymap.add('*', [
+          { sequence: 'j', mode: 'normal', handler: () => { result.push('down'); return true; } },
+          { sequence: 'ctrl+s', handler: () => { result.push('save'); return true; } }
+        ]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'j' }));
+        keymap.pushMode('normal');
+        keymap.processKeydownEvent(createKeyEvent({ key: 'j' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 's', ctrlKey: true }));
+        keymap.pushMode('insert');
+        keymap.processKeydownEvent(createKeyEvent({ key: 'j' }));
+        expect(result).to.eql(['down', 'save']);
+        expect(keymap.findShortcuts('x')).to.eql([]);
+        expect(keymap.findBindingsAt(document.body).length).to.be(1);
+        expect(keymap.popMode()).to.be('insert');
+        expect(keymap.findBindingsAt(document.body).length).to.be(2);
+      });
+
+      it('should maintain a mode stack', () => {
+        var keymap = new KeymapManager();
+        expect(keymap.mode).to.be('');
+        keymap.pushMode('normal');
+        keymap.pushMode('visual');
+        expect(keymap.modes).to.eql(['normal', 'visual']);
+        expect(keymap.mode).to.be('visual');
+        expect(keymap.popMode()).to.be('visual');
+        expect(keymap.popMode()).to.be('normal');
+        expect(keymap.popMode()).to.be('');
+        expect(() => { keymap.pushMode(''); }).to.throwError();
+      });
+
+      it('should emit the modeChanged signal and cancel pending sequences', () => {
+        var keymap = new KeymapManager();
+        keymap.add('*', [{ sequence: 'g g', handler: () => true }]);
+        var changes: IModeChangedArgs[] = [];
+        keymap.modeChanged.connect((sender, args) => { changes.push(args); });
+        keymap.pushMode('normal');
+        keymap.processKeydownEvent(createKeyEvent({ key: 'g' }));
+        keymap.pushMode('normal');
+        expect(keymap.isPending).to.be(true);
+        keymap.pushMode('visual');
+        expect(keymap.isPending).to.be(false);
+        keymap.popMode();
+        expect(changes).to.eql([
+          { oldMode: '', newMode: 'normal' },
+          { oldMode: 'normal', newMode: 'visual' },
+          { oldMode: 'visual', newMode: 'normal' }
+        ]);
+      });
+
+    });
+
+    describe('count prefixes', () => {
+
+      it('should pass a digit count prefix to the handler', () => {
+        var keymap = new KeymapManager();
+        var counts: number[] = [];
+        keymap.add('*', [
+          { sequence: 'd d', handler: ctx => { counts.push(ctx.count); return true; } }
+        ]);
+        keymap.addCountPrefix('body');
+        var first = createKeyEvent({ key: '3' });
+        keymap.processKeydownEvent(first);
+        expect(first.defaultPrevented).to.be(true);
+        expect(keymap.pendingCount).to.be(3);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'd' }));
+        expect(keymap.pendingKeystrokes).to.eql(['3', 'd']);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'd' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: '1' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: '2' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'd' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'd' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'd' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'd' }));
+        expect(counts).to.eql([3, 12, null]);
+        expect(keymap.isPending).to.be(false);
+      });
+
+      it('should support a universal argument keystroke', () => {
+        var commands = new CommandRegistry();
+        var args: any[] = [];
+        commands.add([{ id: 'cursor:down', execute: (a: any) => { args.push(a); } }]);
+        var keymap = new KeymapManager({ commands: commands });
+        keymap.add('*', [
+          { sequence: 'ctrl+n', command: 'cursor:down', args: { select: true } }
+        ]);
+        keymap.addCountPrefix('body', { digits: false, universal: 'ctrl+u' });
+        keymap.processKeydownEvent(createKeyEvent({ key: 'u', ctrlKey: true }));
+        keymap.processKeydownEvent(createKeyEvent({ key: '4' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: '2' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'n', ctrlKey: true }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'u', ctrlKey: true }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'u', ctrlKey: true }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'n', ctrlKey: true }));
+        var digit = createKeyEvent({ key: '4' });
+        keymap.processKeydownEvent(digit);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'n', ctrlKey: true }));
+        expect(digit.defaultPrevented).to.be(false);
+        expect(args).to.eql([
+          { count: 42, select: true },
+          { count: 16, select: true },
+          { select: true }
+        ]);
+      });
+
+      it('should not affect digit bindings outside the selector', () => {
+        var keymap = new KeymapManager();
+        var result: string[] = [];
+        var node = document.createElement('div');
+        node.className = 'vim';
+        document.body.appendChild(node);
+        keymap.add('*', [
+          { sequence: '0', handler: () => { result.push('zero'); return true; } },
+          { sequence: '1', handler: () => { result.push('one'); return true; } }
+        ]);
+        var disposable = keymap.addCountPrefix('.vim');
+        keymap.processKeydownEvent(createKeyEvent({ key: '1' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: '0', target: node }));
+        keymap.processKeydownEvent(createKeyEvent({ key: '1', target: node }));
+        expect(keymap.pendingCount).to.be(1);
+        disposable.dispose();
+        keymap.cancelPending();
+        keymap.processKeydownEvent(createKeyEvent({ key: '1', target: node }));
+        expect(result).to.eql(['one', 'zero', 'one']);
+        document.body.removeChild(node);
+      });
+
+      it('should cancel the count prefix on Escape', () => {
+        var keymap = new KeymapManager();
+        var changes: PendingChange[] = [];
+        keymap.pendingChanged.connect((sender, args) => { changes.push(args.change); });
+        keymap.add('*', [{ sequence: 'x', handler: ctx => ctx.count === null }]);
+        keymap.addCountPrefix('body');
+        keymap.processKeydownEvent(createKeyEvent({ key: '5' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'Escape' }));
+        expect(keymap.isPending).to.be(false);
+        var event = createKeyEvent({ key: 'x' });
+        keymap.processKeydownEvent(event);
+        expect(event.defaultPrevented).to.be(true);
+        expect(changes).to.eql([PendingChange.Extended, PendingChange.Cancelled]);
+        expect(() => { keymap.addCountPrefix('..'); }).to.throwError();
+      });
+
+    });
+
+    describe('asynchronous handlers', () => {
+
+      it('should track the promise of an asynchronous handler', (done) => {
+        var keymap = new KeymapManager();
+        var deferred = createDeferred();
+        keymap.add('*', [{ sequence: 'ctrl+s', handler: () => deferred.promise }]);
+        var event = createKeyEvent({ key: 's', ctrlKey: true });
+        keymap.processKeydownEvent(event);
+        expect(event.defaultPrevented).to.be(true);
+        expect(keymap.isBusy).to.be(true);
+        expect(keymap.busyBindings[0].sequence).to.be('ctrl+s');
+        deferred.resolve();
+        deferred.promise.then(() => {
+          setTimeout(() => {
+            expect(keymap.isBusy).to.be(false);
+            done();
+          }, 0);
+        });
+      });
+
+      it('should apply the propagation policy of the binding', () => {
+        var keymap = new KeymapManager();
+        var result: string[] = [];
+        keymap.add('body', [{
+          sequence: 'ctrl+s',
+          propagation: PropagationPolicy.Continue,
+          handler: () => { result.push('async'); return createDeferred().promise; }
+        }]);
+        keymap.add('html', [
+          { sequence: 'ctrl+s', handler: () => { result.push('sync'); return false; } }
+        ]);
+        var event = createKeyEvent({ key: 's', ctrlKey: true });
+        keymap.processKeydownEvent(event);
+        expect(result).to.eql(['async', 'sync']);
+        expect(event.defaultPrevented).to.be(false);
+      });
+
+      it('should block re-entry of an exclusive binding', (done) => {
+        var keymap = new KeymapManager();
+        var deferred = createDeferred();
+        var calls = 0;
+        keymap.add('*', [{
+          sequence: 'ctrl+s',
+          exclusive: true,
+          handler: () => { calls++; return deferred.promise; }
+        }]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 's', ctrlKey: true }));
+        var event = createKeyEvent({ key: 's', ctrlKey: true });
+        keymap.processKeydownEvent(event);
+        expect(calls).to.be(1);
+        expect(event.defaultPrevented).to.be(true);
+        deferred.resolve();
+        setTimeout(() => {
+          keymap.processKeydownEvent(createKeyEvent({ key: 's', ctrlKey: true }));
+          expect(calls).to.be(2);
+          done();
+        }, 0);
+      });
+
+      it('should report rejections to the error handler', (done) => {
+        var errors: any[] = [];
+        var keymap = new KeymapManager({
+          errorHandler: (error, binding) => { errors.push([error, binding.sequence]); }
+        });
+        var deferred = createDeferred();
+        keymap.add('*', [{ sequence: 'ctrl+s', handler: () => deferred.promise }]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 's', ctrlKey: true }));
+        deferred.reject('oops');
+        setTimeout(() => {
+          expect(errors).to.eql([['oops', 'ctrl+s']]);
+          expect(keymap.isBusy).to.be(false);
+          done();
+        }, 0);
+      });
+
+      it('should log rejections by default', (done) => {
+        var warnings: string[] = [];
+        var keymap = new KeymapManager({ logger: { warn: m => { warnings.push(m); } } });
+        var deferred = createDeferred();
+        keymap.add('*', [{ sequence: 'ctrl+s', handler: () => deferred.promise }]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 's', ctrlKey: true }));
+        deferred.reject('oops');
+        setTimeout(() => {
+          expect(warnings).to.eql(["Key binding 'ctrl+s' failed: oops"]);
+          done();
+        }, 0);
+      });
+
+    });
+
+    describe('key triggers', () => {
+
+      it('should invoke release bindings on keyup', () => {
+        var keymap = new KeymapManager();
+        var result: string[] = [];
+        keymap.add('*', [
+          { sequence: 'shift+a', trigger: KeyTrigger.Release, handler: () => { result.push('up'); return true; } },
+          { sequence: 'shift+a', handler: () => { result.push('down'); return true; } }
+        ]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'A', code: 'KeyA', shiftKey: true }));
+        expect(keymap.heldKeys).to.eql(['shift+a']);
+        var event = createKeyEvent({ type: 'keyup', key: 'a', code: 'KeyA' });
+        keymap.processKeyupEvent(event);
+        keymap.processKeyupEvent(createKeyEvent({ type: 'keyup', key: 'a', code: 'KeyA' }));
+        expect(result).to.eql(['down', 'up']);
+        expect(event.defaultPrevented).to.be(true);
+        expect(keymap.heldKeys).to.eql([]);
+      });
+
+      it('should invoke hold bindings after the hold time', (done) => {
+        var keymap = new KeymapManager({ holdTime: 10 });
+        var result: string[] = [];
+        keymap.add('*', [{
+          sequence: 'space',
+          trigger: KeyTrigger.Hold,
+          handler: () => { result.push('pan'); return true; },
+          releaseHandler: ctx => { result.push(`end ${ctx.event.type}`); }
+        }]);
+        keymap.processKeydownEvent(createKeyEvent({ key: ' ', code: 'Space' }));
+        keymap.processKeyupEvent(createKeyEvent({ type: 'keyup', key: ' ', code: 'Space' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: ' ', code: 'Space' }));
+        setTimeout(() => {
+          expect(result).to.eql([]);
+        }, 5);
+        setTimeout(() => {
+          expect(result).to.eql(['pan']);
+          keymap.processKeyupEvent(createKeyEvent({ type: 'keyup', key: ' ', code: 'Space' }));
+          expect(result).to.eql(['pan', 'end keyup']);
+          done();
+        }, 30);
+      });
+
+      it('should pair release handlers with press bindings', () => {
+        var keymap = new KeymapManager();
+        var result: string[] = [];
+        keymap.add('*', [{
+          sequence: 'ctrl+k ctrl+p',
+          handler: () => { result.push('press'); return true; },
+          releaseHandler: ctx => { result.push(`release ${ctx.events.length}`); }
+        }]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'k', code: 'KeyK', ctrlKey: true }));
+        keymap.processKeyupEvent(createKeyEvent({ type: 'keyup', key: 'k', code: 'KeyK' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'p', code: 'KeyP', ctrlKey: true }));
+        expect(result).to.eql(['press']);
+        keymap.releaseHeldKeys();
+        expect(result).to.eql(['press', 'release 2']);
+        expect(keymap.heldKeys).to.eql([]);
+      });
+
+      it('should reject invalid triggers', () => {
+        var keymap = new KeymapManager({ logger: { warn: () => { } } });
+        var added = keymap.add('*', [
+          { sequence: 'g g', trigger: KeyTrigger.Hold, handler: () => true },
+          { sequence: 'g', trigger: KeyTrigger.Release, handler: () => true, releaseHandler: () => { } }
+        ]);
+        var reasons = added.rejected.map(rejected => rejected.reason);
+        expect(reasons).to.eql([RejectReason.InvalidTrigger, RejectReason.InvalidTrigger]);
+      });
+
+    });
+
+    describe('lone modifiers', () => {
+
+      it('should match a lone modifier on release', () => {
+        var keymap = new KeymapManager();
+        var result: string[] = [];
+        keymap.add('*', [
+          { sequence: 'alt', handler: () => { result.push('menu'); return true; } },
+          { sequence: 'alt+f', handler: () => { result.push('file'); return true; } }
+        ]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'Alt', altKey: true }));
+        expect(result).to.eql([]);
+        keymap.processKeyupEvent(createKeyEvent({ type: 'keyup', key: 'Alt' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'Alt', altKey: true }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'f', altKey: true }));
+        keymap.processKeyupEvent(createKeyEvent({ type: 'keyup', key: 'f', altKey: true }));
+        keymap.processKeyupEvent(createKeyEvent({ type: 'keyup', key: 'Alt' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'Control', ctrlKey: true }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'Alt', ctrlKey: true, altKey: true }));
+        keymap.processKeyupEvent(createKeyEvent({ type: 'keyup', key: 'Alt', ctrlKey: true }));
+        expect(result).to.eql(['menu', 'file']);
+      });
+
+      it('should match a double-tap sequence', () => {
+        var keymap = new KeymapManager();
+        var called = 0;
+        keymap.add('*', [{ sequence: 'shift shift', timeout: 300, handler: () => { called++; return true; } }]);
+        var tap = () => {
+          keymap.processKeydownEvent(createKeyEvent({ key: 'Shift', shiftKey: true }));
+          keymap.processKeyupEvent(createKeyEvent({ type: 'keyup', key: 'Shift' }));
+        };
+        tap();
+        expect(keymap.pendingKeystrokes).to.eql(['shift']);
+        tap();
+        expect(called).to.be(1);
+        expect(keymap.isPending).to.be(false);
+      });
+
+      it('should ignore a lone modifier which does not match', () => {
+        var keymap = new KeymapManager();
+        var called = false;
+        keymap.add('*', [{ sequence: 'ctrl+k ctrl+t', handler: () => { called = true; return true; } }]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'k', ctrlKey: true }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'Shift', ctrlKey: true, shiftKey: true }));
+        keymap.processKeyupEvent(createKeyEvent({ type: 'keyup', key: 'Shift', ctrlKey: true }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'Alt', altKey: true }));
+        keymap.processKeyupEvent(createKeyEvent({ type: 'keyup', key: 'Alt' }));
+        expect(keymap.pendingKeystrokes).to.eql(['ctrl+k']);
+        keymap.processKeydownEvent(createKeyEvent({ key: 't', ctrlKey: true }));
+        expect(called).to.be(true);
+      });
+
+    });
+
+    describe('chords', () => {
+
+      it('should match a chord of two keys pressed together', () => {
+        var keymap = new KeymapManager();
+        var result: string[] = [];
+        keymap.add('*', [
+          { sequence: 'j+k', handler: () => { result.push('escape'); return true; } },
+          { sequence: 'j', handler: () => { result.push('down'); return true; } }
+        ]);
+        var first = createKeyEvent({ key: 'j', code: 'KeyJ' });
+        var second = createKeyEvent({ key: 'k', code: 'KeyK' });
+        keymap.processKeydownEvent(first);
+        expect(first.defaultPrevented).to.be(true);
+        expect(result).to.eql([]);
+        keymap.processKeydownEvent(second);
+        expect(result).to.eql(['escape']);
+        expect(second.defaultPrevented).to.be(true);
+        expect(keymap.isPending).to.be(false);
+      });
+
+      it('should process the first key alone after the chord window', (done) => {
+        var keymap = new KeymapManager({ chordWindow: 10 });
+        var result: string[] = [];
+        keymap.add('*', [
+          { sequence: 'j+k', handler: () => { result.push('escape'); return true; } },
+          { sequence: 'j', handler: () => { result.push('down'); return true; } },
+          { sequence: 'k', handler: () => { result.push('up'); return true; } }
+        ]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'j', code: 'KeyJ' }));
+        setTimeout(() => {
+          expect(result).to.eql(['down']);
+          keymap.processKeydownEvent(createKeyEvent({ key: 'k', code: 'KeyK' }));
+          expect(result).to.eql(['down']);
+          setTimeout(() => {
+            expect(result).to.eql(['down', 'up']);
+            done();
+          }, 30);
+        }, 30);
+      });
+
+      it('should replay the first key if it is released first', () => {
+        var replayed: KeyboardEvent[] = [];
+        var keymap = new KeymapManager({
+          replayPolicy: ReplayPolicy.Callback,
+          replayHandler: events => { replayed = replayed.concat(events); }
+        });
+        var called = false;
+        keymap.add('*', [{ sequence: 'j+k', handler: () => { called = true; return true; } }]);
+        var first = createKeyEvent({ key: 'j', code: 'KeyJ' });
+        keymap.processKeydownEvent(first);
+        keymap.processKeyupEvent(createKeyEvent({ type: 'keyup', key: 'j', code: 'KeyJ' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'k', code: 'KeyK' }));
+        expect(replayed).to.eql([first]);
+        expect(called).to.be(false);
+      });
+
+      it('should not defer a key for a chord at another element', () => {
+        var textarea = document.createElement('textarea');
+        document.body.appendChild(textarea);
+        var keymap = new KeymapManager();
+        keymap.add('.vim', [{ sequence: 'j+k', handler: () => true }]);
+        var event = createKeyEvent({ key: 'j', code: 'KeyJ', target: textarea });
+        keymap.processKeydownEvent(event);
+        expect(event.defaultPrevented).to.be(false);
+        document.body.removeChild(textarea);
+      });
+
+      it('should re-deliver a deferred key regardless of the replay policy', (done) => {
+        var node = document.createElement('div');
+        node.className = 'vim';
+        var textarea = document.createElement('textarea');
+        node.appendChild(textarea);
+        document.body.appendChild(node);
+        var keymap = new KeymapManager({ chordWindow: 10 });
+        keymap.add('.vim', [{ sequence: 'j+k', handler: () => true }]);
+        var event = createKeyEvent({ key: 'j', code: 'KeyJ', target: textarea });
+        keymap.processKeydownEvent(event);
+        expect(event.defaultPrevented).to.be(true);
+        setTimeout(() => {
+          expect(textarea.value).to.be('j');
+          document.body.removeChild(node);
+          done();
+        }, 30);
+      });
+
+      it('should match a chord within a key sequence', () => {
+        var keymap = new KeymapManager({ logger: { warn: () => { } } });
+        var called = false;
+        var added = keymap.add('*', [
+          { sequence: 'ctrl+k s+d', handler: () => { called = true; return true; } },
+          { sequence: 's+d', trigger: KeyTrigger.Hold, handler: () => true }
+        ]);
+        expect(added.rejected[0].reason).to.be(RejectReason.InvalidTrigger);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'k', code: 'KeyK', ctrlKey: true }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'd', code: 'KeyD' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 's', code: 'KeyS' }));
+        expect(called).to.be(true);
+      });
+
+    });
+
+    describe('binding index', () => {
+
+      it('should not match the bindings of a disposed result', () => {
+        var keymap = new KeymapManager();
+        var result: string[] = [];
+        var first = keymap.add('*', [
+          { sequence: 'ctrl+k ctrl+t', handler: () => { result.push('t'); return true; } }
+        ]);
+        var second = keymap.add('*', [
+          { sequence: 'ctrl+k ctrl+u', handler: () => { result.push('u'); return true; } }
+        ]);
+        first.dispose();
+        var completions = keymap.findCompletions('ctrl+k', document.body);
+        expect(completions.map(binding => binding.sequence)).to.eql(['ctrl+k ctrl+u']);
+        second.dispose();
+        var event = createKeyEvent({ key: 'k', ctrlKey: true });
+        keymap.processKeydownEvent(event);
+        expect(event.defaultPrevented).to.be(false);
+        expect(keymap.findCompletions('', document.body)).to.eql([]);
+        expect(result).to.eql([]);
+      });
+
+      it('should match a logical or physical keystroke at each position', () => {
+        var keymap = new KeymapManager();
+        var result: string[] = [];
+        keymap.add('*', [
+          { sequence: '[KeyG] g', handler: () => { result.push('physical'); return true; } },
+          { sequence: 'g [KeyJ]', handler: () => { result.push('logical'); return true; } }
+        ]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'g', code: 'KeyG' }));
+        expect(keymap.isPending).to.be(true);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'j', code: 'KeyJ' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'g', code: 'KeyG' }));
+        keymap.processKeydownEvent(createKeyEvent({ key: 'g', code: 'KeyG' }));
+        expect(result).to.eql(['logical', 'physical']);
+      });
+
+      it('should dispatch bindings with shared selectors in priority order', () => {
+        var node = document.createElement('div');
+        node.className = 'editor';
+        document.body.appendChild(node);
+        var keymap = new KeymapManager();
+        var result: string[] = [];
+        var log = (name: string) => () => { result.push(name); return false; };
+        keymap.add('body', [{ sequence: 'ctrl+l', handler: log('default-body') }]);
+        keymap.add('.editor', [
+          { sequence: 'ctrl+l', handler: log('default-editor-1') },
+          { sequence: 'ctrl+l', handler: log('default-editor-2') }
+        ]);
+        keymap.add('body', [{ sequence: 'ctrl+l', handler: log('user-body') }], KeymapLayer.User);
+        keymap.add('.editor', [{ sequence: 'ctrl+l', handler: log('user-editor') }], KeymapLayer.User);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'l', ctrlKey: true, target: node }));
+        expect(result).to.eql([
+          'user-editor', 'user-body',
+          'default-editor-2', 'default-editor-1', 'default-body'
+        ]);
+        document.body.removeChild(node);
+      });
+
+      it('should not use stale selector matches after a DOM change', () => {
+        var node = document.createElement('div');
+        document.body.appendChild(node);
+        var keymap = new KeymapManager();
+        var called = 0;
+        keymap.add('.active', [{ sequence: 'ctrl+l', handler: () => { called++; return true; } }]);
+        keymap.processKeydownEvent(createKeyEvent({ key: 'l', ctrlKey: true, target: node }));
+        expect(called).to.be(0);
+        node.className = 'active';
+        keymap.processKeydownEvent(createKeyEvent({ key: 'l', ctrlKey: true, target: node }));
+        expect(called).to.be(1);
+        node.className = '';
+        keymap.processKeydownEvent(createKeyEvent({ key: 'l', ctrlKey: true, target: node }));
+        expect(called).to.be(1);
+        document.body.removeChild(node);
+      });
+
+      it('should not use stale matches after a sibling or ancestor change', () => {
+        var host = document.createElement('div');
+        var first = document.createElement('b');
+        var node = document.createElement('span');
+        host.appendChild(first);
+        host.appendChild(node);
+        document.body.appendChild(host);
+        var keymap = new KeymapManager();
+        var called = 0;
+        var handler = () => { called++; return true; };
+        keymap.add('.first + span', [{ sequence: 'ctrl+l', handler: handler }]);
+        keymap.add('.host span', [{ sequence: 'ctrl+m', handler: handler }]);
+        var press = (key: string) => {
+          keymap.processKeydownEvent(createKeyEvent({ key: key, ctrlKey: true, target: node }));
+        };
+        press('l');
+        press('m');
+        expect(called).to.be(0);
+        first.className = 'first';
+        press('l');
+        expect(called).to.be(1);
+        host.className = 'host';
+        press('m');
+        expect(called).to.be(2);
+        document.body.removeChild(host);
+      });
+
+    });
+
+    describe('#cancelPending()', () => {
+
+      it('should cancel the pending sequence', () => {
+        var keymap = new KeymapManager();
+        var called = false;
+        keymap.add('*', [
+          { sequence: 'd', handler: () => { called = true; return true; } },
+          { sequence: 'd d', handler: () => true }
+        ]);
+        var changes: IPendingChangedArgs[] = [];
+        keymap.pendingChanged.connect((sender, args) => { changes.push(args); });
+        keymap.processKeydownEvent(createKeyEvent({ key: 'd' }));
+        keymap.cancelPending();
+        expect(keymap.isPending).to.be(false);
+        expect(called).to.be(false);
+        expect(changes[1].change).to.be(PendingChange.Cancelled);
+        expect(changes[1].keystrokes).to.eql(['d']);
+      });
+
+      it('should be a no-op if no sequence is pending', () => {
+        var keymap = new KeymapManager();
+        var count = 0;
+        keymap.pendingChanged.connect(() => { count++; });
+        keymap.cancelPending();
+        expect(count).to.be(0);
+      });
+
+    });
+
+  });
+
+  describe('analyzeKeymap()', () => {
+
+    var handler = () => true;
+
+    it('should report duplicate sequences for overlapping selectors', () => {
+      var keymap = new KeymapManager();
+      keymap.add('.a, .b', [{ sequence: 'ctrl+s', handler: handler }]);
+      keymap.add('.b, .c', [{ sequence: 'ctrl+s', handler: handler }]);
+      keymap.add('.d', [{ sequence: 'ctrl+s', handler: handler }]);
+      var issues = analyzeKeymap(keymap);
+      expect(issues.length).to.be(1);
+      expect(issues[0].kind).to.be(IssueKind.Duplicate);
+      expect(issues[0].entries[0].selector).to.be('.a, .b');
+      expect(issues[0].entries[1].selector).to.be('.b, .c');
+    });
+
+    it('should report bindings with an identical selector as unreachable', () => {
+      var keymap = new KeymapManager();
+      keymap.add('.a', [{ sequence: 'ctrl+s', handler: handler }]);
+      keymap.add('.a', [{ sequence: 'Ctrl+S', handler: handler }]);
+      var issues = analyzeKeymap(keymap);
+      expect(issues.length).to.be(1);
+      expect(issues[0].kind).to.be(IssueKind.Unreachable);
+    });
+
+    it('should compare the rightmost compound selectors without a root', () => {
+      var keymap = new KeymapManager();
+      keymap.add('.editor', [
+        { sequence: 'ctrl+s', handler: handler },
+        { sequence: 'ctrl+o', handler: handler }
+      ]);
+      keymap.add('body .editor', [{ sequence: 'ctrl+s', handler: handler }]);
+      keymap.add('.editor.focused', [{ sequence: 'ctrl+o', handler: handler }]);
+      keymap.add('.cell', [{ sequence: 'ctrl+s', handler: handler }]);
+      var issues = analyzeKeymap(keymap);
+      expect(issues.length).to.be(2);
+      expect(issues[0].kind).to.be(IssueKind.Duplicate);
+      expect(issues[0].entries[0].binding.sequence).to.be('ctrl+o');
+      expect(issues[0].entries[1].selector).to.be('.editor.focused');
+      expect(issues[1].kind).to.be(IssueKind.Duplicate);
+      expect(issues[1].entries[0].binding.sequence).to.be('ctrl+s');
+      expect(issues[1].entries[1].selector).to.be('body .editor');
+    });
+
+    it('should not report a binding outside of the ancestors as unreachable', () => {
+      var keymap = new KeymapManager();
+      keymap.add('.item', [{ sequence: 'ctrl+s', handler: handler }]);
+      keymap.add('.sidebar .item', [{ sequence: 'ctrl+s', handler: handler }]);
+      var issues = analyzeKeymap(keymap);
+      expect(issues.length).to.be(1);
+      expect(issues[0].kind).to.be(IssueKind.Duplicate);
+      expect(issues[0].entries[0].selector).to.be('.item');
+    });
+
+    it('should report a binding covered with its ancestors as unreachable', () => {
+      var keymap = new KeymapManager();
+      keymap.add('.sidebar .item', [
+        { sequence: 'ctrl+s', handler: handler },
+        { sequence: 'ctrl+o', handler: handler }
+      ]);
+      keymap.add('.item', [{ sequence: 'ctrl+s', handler: handler }], KeymapLayer.User);
+      keymap.add('.sidebar > .item.active', [{ sequence: 'ctrl+o', handler: handler }]);
+      keymap.add('.sidebar .item.active', [{ sequence: 'ctrl+o', handler: handler }]);
+      var issues = analyzeKeymap(keymap);
+      var unreachable = issues.filter(issue => issue.kind === IssueKind.Unreachable);
+      expect(unreachable.length).to.be(1);
+      expect(unreachable[0].entries[0].binding.sequence).to.be('ctrl+s');
+      expect(unreachable[0].entries[0].selector).to.be('.sidebar .item');
+      expect(unreachable[0].entries[1].selector).to.be('.item');
+    });
+
+    it('should use the elements under a root to find shadowing', () => {
+      var root = document.createElement('div');
+      root.innerHTML = '<div class="editor"><span class="cell"></span></div>';
+      document.body.appendChild(root);
+      var keymap = new KeymapManager();
+      keymap.add('.cell', [{ sequence: 'ctrl+s', handler: handler }]);
+      keymap.add('.editor .cell', [{ sequence: 'ctrl+s', handler: handler }]);
+      keymap.add('.editor', [{ sequence: 'ctrl+s', handler: handler }]);
+      var issues = analyzeKeymap(keymap, root);
+      document.body.removeChild(root);
+      expect(issues.length).to.be(1);
+      expect(issues[0].kind).to.be(IssueKind.Unreachable);
+      expect(issues[0].entries[0].selector).to.be('.cell');
+      expect(issues[0].entries[1].selector).to.be('.editor .cell');
+    });
+
+    it('should report prefix conflicts regardless of selector', () => {
+      var keymap = new KeymapManager({ timeout: 500 });
+      keymap.add('.a', [{ sequence: 'd', handler: handler }]);
+      keymap.add('.b', [{ sequence: 'd d', handler: handler }]);
+      var issues = analyzeKeymap(keymap);
+      expect(issues.length).to.be(1);
+      expect(issues[0].kind).to.be(IssueKind.PrefixConflict);
+      expect(issues[0].entries[0].binding.sequence).to.be('d');
+      expect(issues[0].entries[1].binding.sequence).to.be('d d');
+      expect(issues[0].message).to.contain('500 ms');
+    });
+
+    it('should return an empty array for a keymap without conflicts', () => {
+      var keymap = new KeymapManager();
+      keymap.add('*', [
+        { sequence: 'ctrl+a', handler: handler },
+        { sequence: 'ctrl+k ctrl+a', handler: handler }
+      ]);
+      expect(analyzeKeymap(keymap)).to.eql([]);
+    });
+
+  });
+
+  describe('KeystrokeRecorder', () => {
+
+    it('should record a canonical key sequence', () => {
+      var recorder = new KeystrokeRecorder(document.body);
+      var changes: string[][] = [];
+      var sequence = '';
+      recorder.keystrokesChanged.connect((sender, args) => { changes.push(args); });
+      recorder.recorded.connect((sender, args) => { sequence = args; });
+      recorder.start();
+      expect(recorder.isRecording).to.be(true);
+      var event = createKeyEvent({ key: 'Control', ctrlKey: true });
+      recorder.handleEvent(event);
+      expect(event.defaultPrevented).to.be(true);
+      recorder.handleEvent(createKeyEvent({ key: 'K', shiftKey: true, ctrlKey: true }));
+      recorder.handleEvent(createKeyEvent({ key: 'c', ctrlKey: true }));
+      expect(recorder.isRecording).to.be(false);
+      expect(changes).to.eql([['ctrl+shift+k'], ['ctrl+shift+k', 'ctrl+c']]);
+      expect(sequence).to.be('ctrl+shift+k ctrl+c');
+      expect(recorder.sequence).to.be('ctrl+shift+k ctrl+c');
+      recorder.dispose();
+      expect(recorder.isDisposed).to.be(true);
+    });
+
+    it('should suspend the keymap while recording', () => {
+      var keymap = new KeymapManager();
+      var recorder = new KeystrokeRecorder(document.body, { keymap: keymap });
+      recorder.start();
+      expect(keymap.isSuspended).to.be(true);
+      recorder.cancel();
+      expect(keymap.isSuspended).to.be(false);
+      expect(recorder.keystrokes).to.eql([]);
+    });
+
+    it('should stop recording after the timeout', (done) => {
+      var recorder = new KeystrokeRecorder(document.body, { timeout: 10, maxKeystrokes: 3 });
+      recorder.recorded.connect((sender, sequence) => {
+        expect(sequence).to.be('g');
+        expect(recorder.isRecording).to.be(false);
+        recorder.dispose();
+        done();
+      });
+      recorder.start();
+      recorder.handleEvent(createKeyEvent({ key: 'g' }));
+    });
+
+    it('should listen for keydown events on its node', () => {
+      var node = document.createElement('input');
+      document.body.appendChild(node);
+      var recorder = new KeystrokeRecorder(node, { maxKeystrokes: 1 });
+      recorder.start();
+      var event = document.createEvent('Event');
+      (event as any).key = 'F5';
+      event.initEvent('keydown', true, true);
+      node.dispatchEvent(event);
+      document.body.removeChild(node);
+      expect(recorder.sequence).to.be('f5');
+      recorder.dispose();
+    });
+
+  });
+
+  describe('loadKeymap()', () => {
+
+    var createKeymap = () => {
+      var commands = new CommandRegistry();
+      commands.add([
+        { id: 'editor:save', execute: () => { } },
+        { id: 'editor:comment', execute: () => { } }
+      ]);
+      var logger = { warn: (message: string) => { } };
+      return new KeymapManager({ commands: commands, logger: logger });
+    };
+
+    it('should add the bindings of a keymap file', () => {
+      var keymap = createKeymap();
+      var result = loadKeymap(keymap, JSON.stringify({
+        '.editor': {
+          'Ctrl+S': 'editor:save',
+          'ctrl+k ctrl+c': { command: 'editor:comment', args: { toggle: true } }
+        }
+      }));
+      expect(result.errors).to.eql([]);
+      expect(result.accepted.length).to.be(2);
+      expect(keymap.findShortcuts('editor:save')).to.eql(['ctrl+s']);
+      expect(keymap.bindings[0].binding.args).to.eql({ toggle: true });
+      result.dispose();
+      expect(keymap.bindings).to.eql([]);
+    });
+
+    it('should report invalid JSON', () => {
+      var result = loadKeymap(createKeymap(), '{ ".editor": ');
+      expect(result.errors.length).to.be(1);
+      expect(result.errors[0].path).to.be('$');
+    });
+
+    it('should report the JSON path of each invalid entry', () => {
+      var keymap = createKeymap();
+      var result = loadKeymap(keymap, {
+        '.editor': {
+          'ctrl+s': 'editor:save',
+          'ctrl+shift+': 'editor:save',
+          'ctrl+k': { command: 'editor:comment', timeout: -1 },
+          'ctrl+j': { command: 42 } as any,
+          'ctrl+l': { command: 'editor:save', scope: 'focus' } as any,
+          'ctrl+m': { command: 'editor:save', when: 'focus &&' },
+          'ctrl+n': { command: 'editor:save', trigger: 'tap' },
+          'ctrl+o ctrl+p': { command: 'editor:save', trigger: 'hold' },
+          'ctrl+q': { command: 'editor:save', propagation: 'bubble' },
+          'ctrl+r': { command: 'editor:save', exclusive: 'yes' } as any
+        },
+        '..bad': { 'ctrl+s': 'editor:save' },
+        '.other': 'editor:save' as any
+      });
+      var paths = result.errors.map(error => error.path);
+      expect(paths).to.eql([
+        '$[".editor"]["ctrl+j"].command',
+        '$[".editor"]["ctrl+l"].scope',
+        '$[".editor"]["ctrl+n"].trigger',
+        '$[".editor"]["ctrl+q"].propagation',
+        '$[".editor"]["ctrl+r"].exclusive',
+        '$[".editor"]["ctrl+shift+"]',
+        '$[".editor"]["ctrl+k"].timeout',
+        '$[".editor"]["ctrl+m"].when',
+        '$[".editor"]["ctrl+o ctrl+p"].trigger',
+        '$["..bad"]',
+        '$[".other"]'
+      ]);
+      expect(result.accepted.length).to.be(1);
+      expect(result.accepted[0].binding.sequence).to.be('ctrl+s');
+    });
+
+  });
+
+  describe('serializeBindings()', () => {
+
+    it('should write an array for a sequence bound in several modes', () => {
+      var commands = new CommandRegistry();
+      var keymap = new KeymapManager({ commands: commands });
+      var file: IKeymapFile = {
+        '.editor': {
+          'j': [
+            { command: 'cursor:down', mode: 'normal' },
+            { command: 'selection:down', mode: 'visual' }
+          ],
+          'ctrl+s': 'editor:save'
+        }
+      };
+      var result = loadKeymap(keymap, file);
+      expect(result.errors).to.eql([]);
+      expect(result.accepted.length).to.be(3);
+      expect(JSON.parse(serializeKeymap(keymap))).to.eql(file);
+    });
+
+    it('should persist the user layer diff with unbindings', () => {
+      var commands = new CommandRegistry();
+      var keymap = new KeymapManager({ commands: commands });
+      loadKeymap(keymap, { '.editor': { 'ctrl+w': 'editor:close' } });
+      var result = loadKeymap(keymap, {
+        '.editor': { 'ctrl+w': 'unset!', 'ctrl+e': 'editor:export' }
+      }, KeymapLayer.User);
+      expect(result.accepted[0].binding.unbind).to.be(true);
+      expect(JSON.parse(serializeBindings(keymap.diffUserLayer()))).to.eql({
+        '.editor': { 'ctrl+w': 'unset!', 'ctrl+e': 'editor:export' }
+      });
+    });
+
+  });
+
+  describe('serializeKeymap()', () => {
+
+    it('should serialize the command bindings of a keymap', () => {
+      var commands = new CommandRegistry();
+      var keymap = new KeymapManager({ commands: commands });
+      keymap.add('.editor', [
+        { sequence: 'Ctrl+S', command: 'editor:save' },
+        { sequence: 'ctrl+k', command: 'editor:cut', args: { line: true } },
+        { sequence: 'ctrl+h', handler: () => true }
+      ]);
+      expect(JSON.parse(serializeKeymap(keymap))).to.eql({
+        '.editor': {
+          'Ctrl+S': 'editor:save',
+          'ctrl+k': { command: 'editor:cut', args: { line: true } }
+        }
+      });
+    });
+
+    it('should keep the accel modifier of the original sequence', () => {
+      var commands = new CommandRegistry();
+      var keymap = new KeymapManager({ commands: commands, platform: Platform.Windows });
+      keymap.add('.editor', [{ sequence: 'accel+s', command: 'editor:save' }]);
+      expect(keymap.bindings[0].binding.sequence).to.be('ctrl+s');
+      expect(JSON.parse(serializeKeymap(keymap))).to.eql({
+        '.editor': { 'accel+s': 'editor:save' }
+      });
+      var mac = new KeymapManager({ commands: commands, platform: Platform.Mac });
+      var result = loadKeymap(mac, serializeKeymap(keymap));
+      expect(result.accepted[0].sequence).to.be('accel+s');
+      expect(mac.bindings[0].binding.sequence).to.be('cmd+s');
+    });
+
+    it('should round trip an infinite timeout', () => {
+      var commands = new CommandRegistry();
+      var keymap = new KeymapManager({ commands: commands });
+      keymap.add('*', [{ sequence: 'g g', command: 'top', timeout: Infinity }]);
+      var text = serializeKeymap(keymap);
+      expect(JSON.parse(text)).to.eql({
+        '*': { 'g g': { command: 'top', timeout: 'infinite' } }
+      });
+      var other = new KeymapManager({ commands: commands });
+      var result = loadKeymap(other, text);
+      expect(result.errors).to.eql([]);
+      expect(other.bindings[0].binding.timeout).to.be(Infinity);
+    });
+
+    it('should round trip the propagation policy and exclusivity', () => {
+      var commands = new CommandRegistry();
+      var keymap = new KeymapManager({ commands: commands });
+      keymap.add('*', [{
+        sequence: 'ctrl+r', command: 'run',
+        propagation: PropagationPolicy.Continue, exclusive: true
+      }]);
+      var text = serializeKeymap(keymap);
+      expect(JSON.parse(text)).to.eql({
+        '*': { 'ctrl+r': { command: 'run', propagation: 'continue', exclusive: true } }
+      });
+      var other = new KeymapManager({ commands: commands });
+      var result = loadKeymap(other, text);
+      expect(result.errors).to.eql([]);
+      expect(other.bindings).to.eql(keymap.bindings);
+    });
+
+    it('should round trip through loadKeymap()', () => {
+      var commands = new CommandRegistry();
+      var keymap = new KeymapManager({ commands: commands });
+      keymap.add('*', [{ sequence: 'ctrl+a', command: 'a' }]);
+      keymap.add('.foo', [{ sequence: 'ctrl+b', command: 'b', timeout: 50 }]);
+      var other = new KeymapManager({ commands: commands });
+      var result = loadKeymap(other, serializeKeymap(keymap));
+      expect(result.errors).to.eql([]);
+      expect(other.bindings).to.eql(keymap.bindings);
+    });
+
+  });
+
   // describe('KeymapManager', () => {
 
   //   describe('#keycodes mozilla', () => {